@@ -1,29 +1,444 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { NetworkGraph } from './components/NetworkGraph';
 import { Sidebar } from './components/Sidebar';
 import { MobileControls } from './components/MobileControls';
 import { Logo } from './components/Logo';
-import { fetchWikiLinks } from './services/wikiService';
-import { GraphData, WikiNode, WikiLink } from './types';
+import { DEFAULT_LANG, parseSearchInput } from './services/wikiService';
+import { createWikipediaSource, fetchCluster, atSnapshot, diffClusters } from './services/dataSources';
+import { requestScheduler, isAbortError } from './services/requestScheduler';
+import { withCache, listCacheEntries, deleteCacheEntry, clearCache, getCachedNodeIds, DEFAULT_CACHE_TTL } from './services/cacheService';
+import { useGraphStore } from './services/graphStore';
+import {
+  listWorkspaces,
+  getWorkspace,
+  putWorkspace,
+  deleteWorkspace,
+  getActiveWorkspaceId,
+  setActiveWorkspaceId,
+  createWorkspace,
+  createWorkspaceId,
+  serializeGraph,
+  uniqueWorkspaceName,
+  WorkspaceSummary,
+} from './services/workspaceService';
+import { Permalink, encodePermalink, decodePermalink, permalinkFromGraph, sameExploration, pageFromId } from './services/permalink';
+import { GraphData, WikiNode, WikiLink, WikiDataSource, ExpansionMode, CacheEntry, WikiPageRef, ViewTransform, Workspace } from './types';
+import { NodeContextMenu } from './components/NodeContextMenu';
+import { findShortestPath, PathSearchProgress } from './services/pathFinder';
+import { CrawlProgress } from './components/CrawlPanel';
+import { SnapshotDiffSummary } from './components/SnapshotPanel';
+
+const getLinkId = (s: string, t: string) => `${s}->${t}`;
+
+// Quiet time after the last change before the workspace is written
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Previews requested per settled view; a zoomed-out graph can show thousands of nodes
+const MAX_PREVIEWS_PER_PASS = 100;
+
+// Pages a batch fetches at once; each page is itself several API requests
+const BATCH_CHUNK_SIZE = 5;
+
+/**
+ * Promise.allSettled, a few items at a time, so a long batch does not fill the request
+ * queue ahead of everything else. Items after an abort are not started.
+ */
+async function settleInChunks<T, R>(items: T[], run: (item: T) => Promise<R>, signal: AbortSignal): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = [];
+  for (let i = 0; i < items.length && !signal.aborted; i += BATCH_CHUNK_SIZE) {
+    results.push(...await Promise.allSettled(items.slice(i, i + BATCH_CHUNK_SIZE).map(run)));
+  }
+  return results;
+}
+
+// A snapshot day reads the revision that was current when the day ended (UTC)
+const snapshotTimestamp = (date: string) => `${date}T23:59:59Z`;
+
+/**
+ * Folds a node that was reached under a redirect title into its canonical article.
+ * If the canonical node already exists the two become one (links re-pointed, duplicates
+ * dropped, 'main' wins); otherwise the node is re-keyed in place, keeping its position.
+ */
+const mergeIntoCanonical = (prevData: GraphData, aliasId: string, canonical: WikiNode): GraphData => {
+  const aliasNode = prevData.nodes.find(n => n.id === aliasId);
+  if (!aliasNode || aliasId === canonical.id) return prevData;
+
+  const existing = prevData.nodes.find(n => n.id === canonical.id);
+  const aliases = Array.from(new Set([...(existing?.aliases || []), ...(aliasNode.aliases || []), aliasNode.title]));
+  const merged: WikiNode = existing
+    ? { ...existing, group: existing.group === 'main' || aliasNode.group === 'main' ? 'main' : 'sub', aliases }
+    : { ...aliasNode, id: canonical.id, title: canonical.title, url: canonical.url, aliases };
+
+  const toCanonical = (id: string) => id === aliasId ? canonical.id : id;
+  // Keep the merged node where it was in the list (sidebar order follows node order)
+  const nodes = prevData.nodes
+    .filter(n => !(existing && n.id === aliasId))
+    .map(n => n.id === aliasId || n.id === canonical.id ? merged : n)
+    .map(n => n.source === aliasId ? { ...n, source: canonical.id } : n);
+
+  const linkMap = new Map<string, WikiLink>();
+  prevData.links.forEach(l => {
+    const sid = toCanonical((typeof l.source === 'object') ? l.source.id : l.source as string);
+    const tid = toCanonical((typeof l.target === 'object') ? l.target.id : l.target as string);
+    if (sid !== tid && !linkMap.has(getLinkId(sid, tid))) linkMap.set(getLinkId(sid, tid), { ...l, source: sid, target: tid });
+  });
+
+  return { nodes, links: Array.from(linkMap.values()), path: prevData.path?.map(toCanonical) };
+};
+
+/**
+ * Merges a freshly fetched cluster (center node first, children after) into the graph.
+ * - `anchorId`: an existing node being expanded. It is upgraded to 'main' and becomes the
+ *   source of the new links. If the API returned the article under another (canonical)
+ *   title, the anchor is first folded into that canonical node.
+ * - Without an anchor, the cluster's own center node is added (or upgraded if present).
+ * Nodes are deduplicated on their canonical id, so an article never appears twice.
+ */
+const mergeCluster = (baseData: GraphData, data: GraphData, anchorId?: string): GraphData => {
+  const newMainNode = data.nodes[0];
+  const prevData = anchorId ? mergeIntoCanonical(baseData, anchorId, newMainNode) : baseData;
+
+  // Map for efficient lookup and deduplication
+  const nodeMap = new Map<string, WikiNode>();
+  prevData.nodes.forEach(n => nodeMap.set(n.id, n));
+
+  const existingCenter = nodeMap.get(newMainNode.id);
+  let centerNode: WikiNode;
+
+  // Changed nodes are copies: neither the graph nor the fetched cluster is modified
+  if (existingCenter) {
+      centerNode = {
+          ...existingCenter,
+          // A collapsed node shows its sub-nodes again, the new ones included
+          collapsed: undefined,
+          aliases: newMainNode.aliases
+            ? Array.from(new Set([...(existingCenter.aliases || []), ...newMainNode.aliases]))
+            : existingCenter.aliases,
+      };
+      // Upgrade if it was sub
+      if (existingCenter.group === 'sub') {
+          centerNode.group = 'main';
+          centerNode.description = newMainNode.description;
+      }
+  } else {
+      centerNode = { ...newMainNode, group: 'main' };
+      // Random start position if not first node
+      if (prevData.nodes.length > 0 && centerNode.x === undefined) {
+          centerNode.x = (Math.random() - 0.5) * 200;
+          centerNode.y = (Math.random() - 0.5) * 200;
+      }
+  }
+  nodeMap.set(centerNode.id, centerNode);
+
+  // Add new children (sub-nodes); known ones just learn the redirect titles they were linked under
+  data.nodes.slice(1).forEach(child => {
+    const known = nodeMap.get(child.id);
+    if (known && child.aliases) {
+      nodeMap.set(known.id, { ...known, aliases: Array.from(new Set([...(known.aliases || []), ...child.aliases])) });
+    }
+    if (!known) {
+      const added: WikiNode = { ...child, source: centerNode.id };
+      // Set initial position near parent for smooth animation
+      if (centerNode.x !== undefined && centerNode.y !== undefined) {
+          added.x = centerNode.x + (Math.random() - 0.5) * 50;
+          added.y = centerNode.y + (Math.random() - 0.5) * 50;
+      }
+      nodeMap.set(child.id, added);
+    }
+  });
+
+  // Rebuild Links
+  const linkMap = new Map<string, WikiLink>();
+
+  // Keep existing valid links
+  prevData.links.forEach(l => {
+    const sid = (typeof l.source === 'object') ? l.source.id : l.source as string;
+    const tid = (typeof l.target === 'object') ? l.target.id : l.target as string;
+    if (nodeMap.has(sid) && nodeMap.has(tid)) {
+        linkMap.set(getLinkId(sid, tid), { ...l, source: sid, target: tid });
+    }
+  });
+
+  // Add new links from the API response, keeping their direction (backlinks point at the center).
+  // Children that already existed (e.g. other main nodes) are in the map, so related
+  // main nodes get connected here as well.
+  const toGraphId = (id: string) => id === newMainNode.id ? centerNode.id : id;
+  data.links.forEach(l => {
+    const sid = toGraphId((typeof l.source === 'object') ? (l.source as WikiNode).id : l.source as string);
+    const tid = toGraphId((typeof l.target === 'object') ? (l.target as WikiNode).id : l.target as string);
+    if (nodeMap.has(sid) && nodeMap.has(tid)) {
+        const id = getLinkId(sid, tid);
+        if (!linkMap.has(id)) linkMap.set(id, { ...l, source: sid, target: tid });
+    }
+  });
+
+  return { nodes: Array.from(nodeMap.values()), links: Array.from(linkMap.values()), path: prevData.path };
+};
+
+/**
+ * A fetched cluster with changes to its center node. Fetched clusters are shared with the
+ * response cache, so they are copied rather than changed.
+ */
+const withCenter = (data: GraphData, changes: Partial<WikiNode>): GraphData => ({
+  ...data,
+  nodes: [{ ...data.nodes[0], ...changes }, ...data.nodes.slice(1)],
+});
+
+/**
+ * Merges an imported graph into the current one with the same rules as mergeCluster:
+ * an article already on screen (by id, or by a redirect title it is known under) is not
+ * added again but keeps its place, 'main' wins, and links are deduplicated per direction.
+ */
+const mergeGraph = (prevData: GraphData, imported: GraphData): GraphData => {
+  const nodeMap = new Map<string, WikiNode>();
+  prevData.nodes.forEach(n => nodeMap.set(n.id, n));
+  const aliasIds = new Map<string, string>();
+  prevData.nodes.forEach(n => n.aliases?.forEach(a => aliasIds.set(`${n.lang}:${a}`, n.id)));
+
+  const idMap = new Map<string, string>(); // Imported id -> graph id
+  imported.nodes.forEach(node => {
+    const id = nodeMap.has(node.id) ? node.id : aliasIds.get(node.id) || node.id;
+    idMap.set(node.id, id);
+    const existing = nodeMap.get(id);
+    if (existing) {
+      nodeMap.set(id, {
+        ...existing,
+        group: node.group === 'main' ? 'main' : existing.group,
+        description: existing.description || node.description,
+      });
+    } else {
+      // Imported positions are kept; others start near the middle
+      const placed = node.x !== undefined || prevData.nodes.length === 0
+        ? node
+        : { ...node, x: (Math.random() - 0.5) * 200, y: (Math.random() - 0.5) * 200 };
+      nodeMap.set(id, placed);
+    }
+  });
+
+  const toGraphId = (id: string) => idMap.get(id) || id;
+  const linkMap = new Map<string, WikiLink>();
+  [...prevData.links, ...imported.links].forEach(l => {
+    const sid = toGraphId((typeof l.source === 'object') ? l.source.id : l.source as string);
+    const tid = toGraphId((typeof l.target === 'object') ? l.target.id : l.target as string);
+    if (sid === tid || !nodeMap.has(sid) || !nodeMap.has(tid)) return;
+    const id = getLinkId(sid, tid);
+    if (!linkMap.has(id)) linkMap.set(id, { ...l, source: sid, target: tid });
+  });
+
+  return {
+    nodes: Array.from(nodeMap.values()),
+    links: Array.from(linkMap.values()),
+    path: prevData.path || imported.path?.map(toGraphId),
+  };
+};
+
+/**
+ * Deletes a node.
+ * If a Main node is deleted, it might downgrade its children back to 'sub' nodes
+ * or remove them if they are not connected to any other Main node.
+ */
+const removeNode = (prevData: GraphData, nodeId: string): GraphData => {
+  const targetNode = prevData.nodes.find(n => n.id === nodeId);
+  if (!targetNode) return prevData;
+
+  // Identify other main nodes to see if we need to keep connections
+  const otherMainNodeIds = new Set(prevData.nodes.filter(n => n.group === 'main' && n.id !== nodeId).map(n => n.id));
+  
+  const isConnectedToOtherMain = prevData.links.some(l => {
+    const sid = typeof l.source === 'object' ? l.source.id : l.source as string;
+    const tid = typeof l.target === 'object' ? l.target.id : l.target as string;
+    if (sid === nodeId) return otherMainNodeIds.has(tid);
+    if (tid === nodeId) return otherMainNodeIds.has(sid);
+    return false;
+  });
+
+  // If a main node is connected to another main node, we might just want to demote it to 'sub' instead of deleting
+  const shouldDemote = targetNode.group === 'main' && isConnectedToOtherMain;
+  
+  // Filter out the node (unless demoting)
+  const candidateNodes = prevData.nodes.map(n => n.id === nodeId ? (shouldDemote ? { ...n, group: 'sub' as const, expansion: undefined, collapsed: undefined } : null) : n).filter((n): n is WikiNode => n !== null);
+  
+  const nodeMap = new Map<string, WikiNode>();
+  candidateNodes.forEach(n => nodeMap.set(n.id, n));
+  
+  const currentMainNodeIds = new Set(candidateNodes.filter(n => n.group === 'main').map(n => n.id));
+  
+  // Cleanup: Remove nodes that are no longer connected to ANY main node
+  const finalNodes = candidateNodes.filter(n => {
+    if (n.group === 'main') return true;
+    // Check if this sub-node has a link to a main node
+    return prevData.links.some(l => {
+      const sid = typeof l.source === 'object' ? l.source.id : l.source as string;
+      const tid = typeof l.target === 'object' ? l.target.id : l.target as string;
+      if (sid === n.id) return currentMainNodeIds.has(tid);
+      if (tid === n.id) return currentMainNodeIds.has(sid);
+      return false;
+    });
+  });
+
+  const finalNodeIds = new Set(finalNodes.map(n => n.id));
+  
+  // Cleanup Links
+  const finalLinks = prevData.links.map(l => ({
+      ...l,
+      source: typeof l.source === 'object' ? l.source.id : l.source as string,
+      target: typeof l.target === 'object' ? l.target.id : l.target as string,
+    })).filter(l => {
+        if (!finalNodeIds.has(l.source) || !finalNodeIds.has(l.target)) return false;
+        const s = nodeMap.get(l.source);
+        const t = nodeMap.get(l.target);
+        // Only keep links where at least one end is a Main node (or two main nodes).
+        // Sub-to-sub links found by densify survive unless they touch the demoted node.
+        return s?.group === 'main' || t?.group === 'main' || (l.source !== nodeId && l.target !== nodeId);
+    });
+
+  // A path with a deleted step is no longer a path
+  const path = prevData.path?.every(id => finalNodeIds.has(id)) ? prevData.path : undefined;
+  return { nodes: finalNodes, links: finalLinks, path };
+};
+
+/**
+ * Notes on a node which directions its links were fetched in, for permalinks. A main node
+ * already shows its outgoing links (unless noted otherwise), so a second direction makes it 'both'.
+ */
+const recordExpansion = (prevData: GraphData, nodeId: string, mode: ExpansionMode, wasMain: boolean): GraphData => ({
+  ...prevData,
+  nodes: prevData.nodes.map(n => {
+    if (n.id !== nodeId) return n;
+    const previous = wasMain ? n.expansion || 'out' : undefined;
+    return { ...n, expansion: !previous || previous === mode ? mode : 'both' };
+  }),
+});
+
+/**
+ * Merges the cluster fetched to expand `anchorId` in `mode` (see mergeCluster) and records
+ * the direction on the expanded node. Clicks and crawls both expand through here.
+ */
+const mergeExpansion = (prevData: GraphData, data: GraphData, anchorId: string | undefined, mode: ExpansionMode): GraphData => {
+  const wasMain = prevData.nodes.find(n => n.id === anchorId)?.group === 'main';
+  return recordExpansion(mergeCluster(prevData, data, anchorId), data.nodes[0].id, mode, wasMain);
+};
+
+/**
+ * Finds the node for a title typed by the user (case-insensitive, underscores or spaces,
+ * redirect aliases included) within one language edition.
+ */
+const findNodeByTitle = (nodes: WikiNode[], input: string, lang: string): WikiNode | undefined => {
+  const searchTitle = input.trim().toLowerCase().replace(/_/g, ' ');
+  return nodes.find(n => n.lang === lang &&
+    (n.title.toLowerCase() === searchTitle || n.aliases?.some(a => a.toLowerCase() === searchTitle)));
+};
+
+/**
+ * Adds links (plain ones unless `kind` says otherwise) between nodes that are already in the
+ * graph (by id), skipping pairs that are already connected in that direction. Returns the
+ * same object if nothing is new.
+ */
+const addLinksBetween = (prevData: GraphData, pairs: Array<[string, string]>, kind: WikiLink['kind'] = 'link'): GraphData => {
+  const existing = new Set(prevData.links.map(l => getLinkId(
+    (typeof l.source === 'object') ? l.source.id : l.source as string,
+    (typeof l.target === 'object') ? l.target.id : l.target as string
+  )));
+  const added: WikiLink[] = [];
+  pairs.forEach(([sid, tid]) => {
+    const id = getLinkId(sid, tid);
+    if (existing.has(id)) return;
+    existing.add(id);
+    added.push({ source: sid, target: tid, value: 1, kind });
+  });
+  if (added.length === 0) return prevData;
+  return { ...prevData, links: [...prevData.links, ...added] };
+};
+
+/**
+ * Adds a found path (articles in order) as a chain: articles not yet in the graph are
+ * placed next to their predecessor as sub-nodes, both ends become main nodes, and every
+ * step gets a link. Replaces any previous path.
+ */
+const addPath = (prevData: GraphData, pathNodes: WikiNode[]): GraphData => {
+  const nodeMap = new Map<string, WikiNode>();
+  prevData.nodes.forEach(n => nodeMap.set(n.id, n));
+
+  let previous: WikiNode | undefined;
+  pathNodes.forEach((pathNode, i) => {
+    const isEnd = i === 0 || i === pathNodes.length - 1;
+    let node = nodeMap.get(pathNode.id);
+    if (node) {
+      if (isEnd && node.group !== 'main') {
+        node = { ...node, group: 'main' };
+        nodeMap.set(node.id, node);
+      }
+    } else {
+      node = { ...pathNode, group: isEnd ? 'main' : 'sub', source: previous ? previous.id : 'ROOT' };
+      if (previous?.x !== undefined && previous.y !== undefined) {
+        node.x = previous.x + 60 + (Math.random() - 0.5) * 50;
+        node.y = previous.y + (Math.random() - 0.5) * 50;
+      } else if (prevData.nodes.length > 0) {
+        node.x = (Math.random() - 0.5) * 200;
+        node.y = (Math.random() - 0.5) * 200;
+      }
+      nodeMap.set(node.id, node);
+    }
+    previous = node;
+  });
+
+  const steps = pathNodes.slice(1).map((n, i): [string, string] => [pathNodes[i].id, n.id]);
+  return addLinksBetween(
+    { nodes: Array.from(nodeMap.values()), links: prevData.links, path: pathNodes.map(n => n.id) },
+    steps
+  );
+};
 
 function App() {
   // Graph Data State
-  const [graphData, setGraphData] = useState<GraphData>({ nodes: [], links: [] });
+  const { graphData, commit, updateInPlace, reset: resetGraph, undo, redo, nextUndo, nextRedo } = useGraphStore();
   
   // UI State
-  const [isLoading, setIsLoading] = useState(false);
+  // Every fetch runs as an operation with its own AbortController; loading while any is pending
+  const operationsRef = useRef(new Set<AbortController>());
+  const [pendingOperations, setPendingOperations] = useState(0);
+  const isLoading = pendingOperations > 0;
   const [error, setError] = useState<string | null>(null);
   
   // Interaction State
   const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null); // For camera centering
   const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null); // For highlighting
+  const [contextMenu, setContextMenu] = useState<{ nodeId: string; x: number; y: number } | null>(null); // Right-click menu on a node
+  const [pathProgress, setPathProgress] = useState<PathSearchProgress | null>(null); // Live stats of a running path search
+  const [crawlProgress, setCrawlProgress] = useState<CrawlProgress | null>(null); // Live stats of a running auto-expand crawl
+  const crawlOperationRef = useRef<AbortController | null>(null);
+  const [disambiguation, setDisambiguation] = useState<{ data: GraphData; lang: string; anchorId?: string } | null>(null); // Disambiguation page waiting for the user to pick a meaning
+  const [snapshotDiff, setSnapshotDiff] = useState<{ summary: SnapshotDiffSummary; data: GraphData } | null>(null); // Shown instead of the graph while set
   
   // Settings
   const [linkLimit, setLinkLimit] = useState<number>(150); // Max sub-nodes per fetch
+  const [lang, setLang] = useState<string>(DEFAULT_LANG); // Wikipedia language edition used for new searches
+  const [dataSource, setDataSource] = useState<WikiDataSource>(() => createWikipediaSource()); // Where clusters come from
+  const [cacheTtl, setCacheTtl] = useState<number>(DEFAULT_CACHE_TTL); // Age after which cached responses are refetched
+  const [offline, setOffline] = useState<boolean>(false); // Build graphs from cached responses only
+  const [snapshotDate, setSnapshotDate] = useState<string | null>(null); // Day (YYYY-MM-DD) whose revisions every fetch reads; null for the latest
+  const [cacheEntries, setCacheEntries] = useState<CacheEntry[]>([]); // Snapshot of the response cache for the inspector
   const [searchTerm, setSearchTerm] = useState<string>(''); // Current sidebar input filter
   const [showSubNodes, setShowSubNodes] = useState<boolean>(true); // Toggle visibility of white nodes
   const [resetViewTrigger, setResetViewTrigger] = useState(0); // Counter to trigger D3 zoom reset
+  const [layoutFrozen, setLayoutFrozen] = useState<boolean>(false); // Stop the force simulation; nodes only move when dragged
+  const [pinVersion, setPinVersion] = useState(0); // Bumped when pins change (fx/fy are written onto the node objects)
+
+  // Workspaces: the graph autosaves into the active one and is restored on reload
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [activeWorkspaceId, setActiveWorkspace] = useState<string | null>(null); // null until a workspace is open (or storage is unavailable)
+  const [viewTransform, setViewTransform] = useState<ViewTransform | null>(null); // Camera of the workspace just opened
+  const cameraRef = useRef<ViewTransform | null>(null); // Latest camera reported by the graph
+  const autosaveTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  // Permalinks: the URL hash describes the exploration and back/forward replays it
+  const [hashReady, setHashReady] = useState(false); // false until a link in the URL on load has been handled
+  const lastPermalinkRef = useRef<Permalink | null>(null); // What the current history entry shows
+  const replaceHistoryRef = useRef(false); // The next URL update replaces the entry instead of adding one
+  const replayingRef = useRef(false); // A link is being replayed; the URL already shows it
+  const replayOperationRef = useRef<AbortController | null>(null);
+  const [replayCount, setReplayCount] = useState(0); // Bumped after a replay so the URL is rewritten even if nothing changed
   
   const [dimensions, setDimensions] = useState({ width: window.innerWidth, height: window.innerHeight });
 
@@ -40,12 +455,171 @@ function App() {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y), except while typing where they edit the text
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) undo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [undo, redo]);
+
+  const beginOperation = useCallback(() => {
+    const controller = new AbortController();
+    operationsRef.current.add(controller);
+    setPendingOperations(operationsRef.current.size);
+    return controller;
+  }, []);
+
+  const endOperation = useCallback((controller: AbortController) => {
+    operationsRef.current.delete(controller);
+    setPendingOperations(operationsRef.current.size);
+  }, []);
+
+  // Aborts every pending operation, including requests it has not issued yet
+  const handleCancelRequests = useCallback(() => {
+    operationsRef.current.forEach(c => c.abort());
+    requestScheduler.cancelAll();
+  }, []);
+
+  // Nodes currently being expanded; clicking them again does not fire a second fetch
+  const expandingRef = useRef(new Set<string>());
+
+  const refreshCacheEntries = useCallback(() => {
+    listCacheEntries().then(setCacheEntries).catch(err => console.warn('Cache unavailable:', err));
+  }, []);
+
+  useEffect(() => {
+    refreshCacheEntries();
+  }, [refreshCacheEntries]);
+
+  // Every fetch goes through the persistent cache (and the snapshot date, if one is set)
+  const activeSource = useMemo(
+    () => withCache(
+      snapshotDate ? atSnapshot(dataSource, snapshotTimestamp(snapshotDate)) : dataSource,
+      { ttl: cacheTtl, offline, onStore: refreshCacheEntries }
+    ),
+    [dataSource, snapshotDate, cacheTtl, offline, refreshCacheEntries]
+  );
+
+  // Offline, sub-nodes without a cached cluster cannot be expanded
+  const unavailableNodeIds = useMemo(() => {
+    if (!offline || activeSource.id === 'dump') return undefined;
+    const cached = getCachedNodeIds(cacheEntries, activeSource.label);
+    return new Set(graphData.nodes.filter(n => n.group === 'sub' && !cached.has(n.id)).map(n => n.id));
+  }, [offline, activeSource, cacheEntries, graphData.nodes]);
+
+  const handleDeleteCacheEntry = useCallback((key: string) => {
+    deleteCacheEntry(key).then(refreshCacheEntries);
+  }, [refreshCacheEntries]);
+
+  const handleClearCache = useCallback(() => {
+    clearCache().then(refreshCacheEntries);
+  }, [refreshCacheEntries]);
+
+  // Node ids whose preview was already requested, so panning back and forth does not refetch
+  const enrichedIdsRef = useRef(new Set<string>());
+  const [, setEnrichmentVersion] = useState(0); // Bumped when previews land (nodes are updated in place)
+
+  // Nodes that leave the graph (deleted, undone) may come back from history without a preview
+  useEffect(() => {
+    const onScreen = new Set(graphData.nodes.map(n => n.id));
+    enrichedIdsRef.current.forEach(id => {
+      if (!onScreen.has(id)) enrichedIdsRef.current.delete(id);
+    });
+  }, [graphData.nodes]);
+
+  /**
+   * Loads description, extract and thumbnail for the given nodes in the background.
+   * The node objects are updated in place, outside the undo history, so purely
+   * presentational data does not rebuild the running simulation.
+   */
+  const enrichNodes = useCallback(async (nodeIds: string[]) => {
+    const fetchSummaries = activeSource.fetchSummaries;
+    if (!fetchSummaries) return;
+
+    const requested = new Set(nodeIds);
+    const pending = graphData.nodes
+      .filter(n => requested.has(n.id) && !enrichedIdsRef.current.has(n.id))
+      .slice(0, MAX_PREVIEWS_PER_PASS);
+    if (pending.length === 0) return;
+
+    // Summaries are per edition
+    const byLang = new Map<string, WikiNode[]>();
+    pending.forEach(n => byLang.set(n.lang, [...(byLang.get(n.lang) || []), n]));
+    for (const [nodeLang, nodes] of byLang) {
+      nodes.forEach(n => enrichedIdsRef.current.add(n.id));
+      try {
+        const summaries = await fetchSummaries(nodes.map(n => n.title), nodeLang);
+        const ids = new Map(nodes.map(n => [n.id, n.title]));
+        updateInPlace(data => {
+          data.nodes.forEach(n => {
+            const summary = ids.has(n.id) ? summaries.get(ids.get(n.id)!) : undefined;
+            if (!summary) return;
+            n.description = n.description || summary.description;
+            n.extract = summary.extract;
+            n.thumbnail = summary.thumbnail;
+          });
+        });
+        setEnrichmentVersion(v => v + 1);
+      } catch (err) {
+        // Cancelled previews may be requested again later
+        nodes.forEach(n => enrichedIdsRef.current.delete(n.id));
+        if (!isAbortError(err)) console.warn('Could not load previews:', err);
+      }
+    }
+  }, [activeSource, graphData.nodes, updateInPlace]);
+
+  // A hovered node gets its preview right away, even if it was off-screen when the view settled
+  useEffect(() => {
+    if (hoveredNodeId) enrichNodes([hoveredNodeId]);
+  }, [hoveredNodeId, enrichNodes]);
+
+  /**
+   * Expands a node in the given direction:
+   * - 'out': articles it links to; 'in': articles linking to it; 'both': union of the two.
+   * A 'sub' node is upgraded to 'main'; a 'main' node simply gains the new neighbours.
+   */
+  const expandNode = useCallback(async (node: WikiNode, mode: ExpansionMode) => {
+    const expansionKey = `${node.id}|${mode}`;
+    if (expandingRef.current.has(expansionKey)) return;
+    expandingRef.current.add(expansionKey);
+    const operation = beginOperation();
+    try {
+      // Nodes are always expanded in their own language edition
+      const newData = await fetchCluster(activeSource, node.title, linkLimit, node.lang, mode, operation.signal);
+      if (newData.nodes.length === 0) return;
+      if (newData.disambiguation) {
+        setDisambiguation({ data: newData, lang: node.lang, anchorId: node.id });
+        return;
+      }
+      commit({ kind: 'expand', label: node.title }, prevData => mergeExpansion(prevData, newData, node.id, mode));
+      // The canonical id, in case the node was a redirect
+      setFocusedNodeId(newData.nodes[0].id);
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      if (err.message === 'Not available offline') setError('NOT AVAILABLE OFFLINE');
+      console.error("Error expanding node:", err);
+    } finally {
+      expandingRef.current.delete(expansionKey);
+      endOperation(operation);
+    }
+  }, [linkLimit, activeSource, beginOperation, endOperation, commit]);
+
   /**
    * Handles clicking a node in the graph.
    * - If 'main': Focus/Center on it.
-   * - If 'sub': Fetch data for it, convert to 'main', and add its children.
+   * - If 'sub': Fetch its outgoing links, convert to 'main', and add its children.
    */
   const handleNodeClick = useCallback(async (node: WikiNode | null) => {
+    setContextMenu(null);
     if (!node) {
       setFocusedNodeId(null);
       return;
@@ -58,267 +632,909 @@ function App() {
 
     // --- Expanding a Sub Node ---
     if (node.group === 'sub') {
-      setIsLoading(true);
-      try {
-        const newData = await fetchWikiLinks(node.id, linkLimit);
-        
-        setGraphData(prevData => {
-          // Map for efficient lookup and deduplication
-          const nodeMap = new Map<string, WikiNode>();
-          prevData.nodes.forEach(n => nodeMap.set(n.id, n));
-          
-          // Upgrade the clicked node from sub -> main
-          const expandingNode = nodeMap.get(node.id);
-          if (expandingNode) {
-            expandingNode.group = 'main';
-            if (newData.nodes.length > 0) {
-                expandingNode.description = newData.nodes[0].description;
-            }
-          }
-          
-          // Add new children (sub-nodes)
-          const newChildren = newData.nodes.slice(1);
-          newChildren.forEach(child => {
-            if (!nodeMap.has(child.id)) {
-              // Set initial position near parent for smooth animation
-              if (expandingNode && expandingNode.x !== undefined && expandingNode.y !== undefined) {
-                 child.x = expandingNode.x + (Math.random() - 0.5) * 50;
-                 child.y = expandingNode.y + (Math.random() - 0.5) * 50;
-              }
-              child.source = node.id;
-              nodeMap.set(child.id, child);
-            }
-          });
+      await expandNode(node, 'out');
+    }
+  }, [expandNode]);
 
-          // Rebuild Links
-          const linkMap = new Map<string, WikiLink>();
-          const getLinkId = (s: string, t: string) => `${s}->${t}`;
-
-          // Keep existing valid links
-          prevData.links.forEach(l => {
-             const sid = (typeof l.source === 'object') ? l.source.id : l.source as string;
-             const tid = (typeof l.target === 'object') ? l.target.id : l.target as string;
-             if (nodeMap.has(sid) && nodeMap.has(tid)) {
-                 linkMap.set(getLinkId(sid, tid), { source: sid, target: tid, value: l.value });
-             }
-          });
+  // Stable callback: NetworkGraph rebuilds the simulation when its handlers change
+  const handleNodeContextMenu = useCallback((node: WikiNode, x: number, y: number) => {
+    setContextMenu({ nodeId: node.id, x, y });
+  }, []);
 
-          // Add new links from the API response
-          newData.links.forEach(l => {
-             const targetId = (typeof l.target === 'object') ? (l.target as WikiNode).id : l.target as string;
-             if (nodeMap.has(targetId)) {
-                const id = getLinkId(node.id, targetId);
-                if (!linkMap.has(id)) {
-                  linkMap.set(id, { source: node.id, target: targetId, value: 1 });
-                }
-             }
-          });
+  /**
+   * Expands a node chosen by id from the context menu or a sidebar card.
+   */
+  const handleExpandNode = useCallback((nodeId: string, mode: ExpansionMode) => {
+    setContextMenu(null);
+    const node = graphData.nodes.find(n => n.id === nodeId);
+    if (node) expandNode(node, mode);
+  }, [graphData.nodes, expandNode]);
 
-          // Check for connections between the new main node and EXISTING main nodes
-          nodeMap.forEach((potentialTarget) => {
-             if (potentialTarget.group === 'main' && potentialTarget.id !== node.id) {
-                if (newData.nodes.some(n => n.id === potentialTarget.id)) {
-                   const id = getLinkId(node.id, potentialTarget.id);
-                   if (!linkMap.has(id)) {
-                      linkMap.set(id, { source: node.id, target: potentialTarget.id, value: 1 });
-                   }
-                }
-             }
-         });
-
-          return { nodes: Array.from(nodeMap.values()), links: Array.from(linkMap.values()) };
-        });
+  /**
+   * Fetches several pages, a few at a time, and merges them into the graph as one batch.
+   * Known sub-nodes are expanded in place; known main nodes are only refetched for a
+   * #Section. Disambiguation pages are not merged: the first one opens the meaning chooser.
+   * Returns the pages now in the graph as main nodes (fetched centers and known main nodes).
+   * A single page that fails throws; failures within a larger batch go to the error line.
+   */
+  const seedBatch = useCallback(async (targets: Array<WikiPageRef & { lang: string }>, signal: AbortSignal): Promise<WikiNode[]> => {
+    const known: WikiNode[] = [];
+    const pending: Array<{ target: WikiPageRef & { lang: string }; anchorId?: string }> = [];
+    targets.forEach(target => {
+      const existing = findNodeByTitle(graphData.nodes, target.title, target.lang);
+      if (existing?.group === 'main' && !target.section) known.push(existing);
+      else pending.push({ target, anchorId: existing?.id });
+    });
 
-        setFocusedNodeId(node.id);
-      } catch (err: any) {
-        console.error("Error expanding node:", err);
-      } finally {
-        setIsLoading(false);
-      }
+    const results = await settleInChunks(pending, async ({ target, anchorId }) => {
+      const query = target.section ? `${target.title}#${target.section}` : target.title;
+      const data = await activeSource.fetchLinks(query, linkLimit, target.lang, signal);
+      return data.nodes.length > 0 ? { data, lang: target.lang, anchorId } : null;
+    }, signal);
+    if (signal.aborted) return [];
+
+    const fetched = results.flatMap(r => r.status === 'fulfilled' && r.value ? [r.value] : []);
+    const failures = results.flatMap(r => r.status === 'rejected' ? [r.reason] : []);
+    if (targets.length === 1 && failures.length > 0) throw failures[0];
+    if (fetched.length === 0 && failures.length === 0 && known.length === 0) throw new Error("No data found");
+
+    // Disambiguation pages are not merged; the first one found opens the meaning chooser
+    const clusters = fetched.filter(c => !c.data.disambiguation);
+    const ambiguous = fetched.filter(c => c.data.disambiguation);
+    if (ambiguous.length > 0) setDisambiguation(ambiguous[0]);
+
+    // Keyed by the signal so links added later by the same operation undo together with it
+    const label = targets.length === 1 ? targets[0].title : `${targets.length} pages`;
+    if (clusters.length > 0) {
+      commit({ kind: 'seed', label }, prevData => {
+        // Seeds of a fresh graph are its roots
+        const isFresh = prevData.nodes.length === 0;
+        return clusters.reduce((merged, c) =>
+          mergeCluster(merged, isFresh && !c.anchorId ? withCenter(c.data, { source: 'ROOT' }) : c.data, c.anchorId), prevData);
+      }, signal);
     }
-  }, [linkLimit]);
+    if (failures.length > 0) setError(`${failures.length} OF ${targets.length} PAGES COULD NOT BE LOADED`);
+    else if (ambiguous.length > 1) setError(`${ambiguous.length - 1} MORE DISAMBIGUATION PAGES SKIPPED`);
+    return [...known, ...clusters.map(c => c.data.nodes[0])];
+  }, [linkLimit, activeSource, graphData.nodes, commit]);
 
   /**
    * Handles Search Input from Sidebar.
-   * - If node exists: Focus/Expand it.
-   * - If new: Fetch from API and create new cluster.
+   * Each line is a title or a wiki URL (desktop, mobile, index.php?title=, any edition),
+   * optionally with a #Section anchor that limits the links to that section.
+   * - One known article: Focus/Expand it.
+   * - Otherwise: Fetch from API (in the URL's or the selected language edition) and create
+   *   new clusters; a pasted list is seeded as one batch.
    */
   const handleSearchSubmit = useCallback(async (input: string) => {
-    const rawInput = input.trim().replace(/\s+/g, '_');
-    if (!rawInput) return;
+    const targets = input.split(/\r?\n/)
+      .map(parseSearchInput)
+      .filter((t): t is WikiPageRef => t !== null)
+      // Single-edition sources (custom wikis, dumps) ignore the language selector and URL hosts
+      .map(t => ({ ...t, lang: dataSource.supportsLanguages ? (t.lang || lang) : dataSource.defaultLang }));
+    if (targets.length === 0) return;
 
     // Check if exists in graph already
-    const existingNode = graphData.nodes.find(n => n.id.toLowerCase() === rawInput.toLowerCase().replace(/_/g, ' '));
-    if (existingNode) {
-        if (existingNode.group === 'sub') handleNodeClick(existingNode);
-        else setFocusedNodeId(existingNode.id);
-        setSearchTerm(''); 
-        return;
+    if (targets.length === 1 && !targets[0].section) {
+      const existingNode = findNodeByTitle(graphData.nodes, targets[0].title, targets[0].lang);
+      if (existingNode) {
+          if (existingNode.group === 'sub') handleNodeClick(existingNode);
+          else setFocusedNodeId(existingNode.id);
+          setSearchTerm('');
+          return;
+      }
     }
 
-    setIsLoading(true);
+    const operation = beginOperation();
     setError(null);
     setSearchTerm('');
 
     try {
-      const data = await fetchWikiLinks(rawInput, linkLimit);
+      const seeded = await seedBatch(targets, operation.signal);
+      if (seeded.length > 0) setFocusedNodeId(seeded[0].id);
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      if (err.message === 'Page not found') setError('WIKI PAGE NOT FOUND');
+      else if (err.message === 'Section not found') setError('SECTION NOT FOUND');
+      else if (err.message === 'Not available offline') setError('NOT AVAILABLE OFFLINE');
+      else setError(err.message || 'FETCH_FAILED');
+    } finally {
+      endOperation(operation);
+    }
+  }, [lang, dataSource, graphData.nodes, handleNodeClick, seedBatch, beginOperation, endOperation]);
+
+  /**
+   * Seeds a set of articles: the members of a category (down to `depth` levels of
+   * subcategories) or the articles a list page links to, at most `limit`. Every member
+   * becomes a main node in one batch, then the links between members are drawn, including
+   * those too weak to make the link limit of the member's own cluster.
+   */
+  const handleSeedSet = useCallback(async (kind: 'category' | 'list', title: string, depth: number, limit: number) => {
+    const searchLang = dataSource.supportsLanguages ? lang : dataSource.defaultLang;
+    const operation = beginOperation();
+    setError(null);
+
+    try {
+      let members: string[];
+      if (kind === 'category') {
+        const fetchCategoryMembers = activeSource.fetchCategoryMembers;
+        if (!fetchCategoryMembers) throw new Error('Not available offline');
+        members = await fetchCategoryMembers(title, depth, limit, searchLang, operation.signal);
+      } else {
+        const list = await activeSource.fetchLinks(title, limit, searchLang, operation.signal);
+        members = list.nodes.slice(1).map(n => n.title);
+      }
+      if (members.length === 0) throw new Error('NO MEMBERS FOUND');
+
+      const seeded = await seedBatch(members.map(t => ({ title: t, lang: searchLang })), operation.signal);
+      if (seeded.length === 0) return;
+      setFocusedNodeId(seeded[0].id);
+
+      const fetchLinksBetween = activeSource.fetchLinksBetween;
+      if (!fetchLinksBetween || seeded.length < 2) return;
+      const idByTitle = new Map<string, string>();
+      seeded.forEach(n => {
+        idByTitle.set(n.title, n.id);
+        n.aliases?.forEach(a => idByTitle.set(a, n.id));
+      });
+      const result = await fetchLinksBetween(seeded.map(n => n.title), Array.from(idByTitle.keys()), searchLang, operation.signal);
+      const pairs: Array<[string, string]> = [];
+      result.links.forEach(l => {
+        const sid = idByTitle.get(l.source);
+        const tid = idByTitle.get(l.target);
+        if (sid && tid && sid !== tid) pairs.push([sid, tid]);
+      });
+      commit({ kind: 'seed', label: title }, prevData => addLinksBetween(prevData, pairs), operation.signal);
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      if (err.message === 'Page not found') setError('WIKI PAGE NOT FOUND');
+      else if (err.message === 'Not available offline') setError('NOT AVAILABLE OFFLINE');
+      else setError(err.message || 'FETCH_FAILED');
+    } finally {
+      endOperation(operation);
+    }
+  }, [lang, dataSource, activeSource, seedBatch, beginOperation, endOperation, commit]);
+
+  /**
+   * Resolves the pending disambiguation page with the meaning the user picked. A sub-node
+   * that led to the page becomes the chosen article (keeping its links and position);
+   * otherwise the meaning is added like a search.
+   */
+  const handlePickMeaning = useCallback(async (title: string) => {
+    if (!disambiguation) return;
+    const { lang: meaningLang, anchorId } = disambiguation;
+    setDisambiguation(null);
+
+    const operation = beginOperation();
+    setError(null);
+
+    try {
+      const data = await activeSource.fetchLinks(title, linkLimit, meaningLang, operation.signal);
+      if (data.nodes.length === 0) throw new Error("No data found");
+      // Meanings can be ambiguous themselves
+      if (data.disambiguation) {
+        setDisambiguation({ data, lang: meaningLang, anchorId });
+        return;
+      }
+
+      commit(
+        { kind: anchorId ? 'expand' : 'seed', label: data.nodes[0].title },
+        prevData => mergeCluster(
+          prevData,
+          prevData.nodes.length === 0 ? withCenter(data, { source: 'ROOT' }) : data,
+          prevData.nodes.some(n => n.id === anchorId) ? anchorId : undefined
+        )
+      );
+      setFocusedNodeId(data.nodes[0].id);
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      if (err.message === 'Page not found') setError('WIKI PAGE NOT FOUND');
+      else if (err.message === 'Not available offline') setError('NOT AVAILABLE OFFLINE');
+      else setError(err.message || 'FETCH_FAILED');
+    } finally {
+      endOperation(operation);
+    }
+  }, [disambiguation, linkLimit, activeSource, beginOperation, endOperation, commit]);
+
+  // Adds the disambiguation page itself, with every meaning as a sub-node
+  const handleAddDisambiguationPage = useCallback(() => {
+    if (!disambiguation) return;
+    const { data, anchorId } = disambiguation;
+    setDisambiguation(null);
+    commit(
+      { kind: anchorId ? 'expand' : 'seed', label: data.nodes[0].title },
+      prevData => mergeCluster(
+        prevData,
+        prevData.nodes.length === 0 ? withCenter(data, { source: 'ROOT' }) : data,
+        prevData.nodes.some(n => n.id === anchorId) ? anchorId : undefined
+      )
+    );
+    setFocusedNodeId(data.nodes[0].id);
+  }, [disambiguation, commit]);
+
+  // Suggestions for the search boxes, in the edition a search would use
+  const handleFetchSuggestions = useMemo(() => {
+    const fetchSuggestions = activeSource.fetchSuggestions;
+    if (!fetchSuggestions) return undefined;
+    const searchLang = dataSource.supportsLanguages ? lang : dataSource.defaultLang;
+    return (query: string, signal: AbortSignal) => fetchSuggestions(query, searchLang, signal);
+  }, [activeSource, dataSource, lang]);
+
+  /**
+   * Follows a node's interlanguage link and expands the same concept in another
+   * language edition, next to the original. The two main nodes are joined by a 'langlink'.
+   */
+  const handleExpandInLanguage = useCallback(async (nodeId: string, targetLang: string) => {
+    const node = graphData.nodes.find(n => n.id === nodeId);
+    if (!node || node.lang === targetLang || !dataSource.supportsLanguages) return;
+
+    const operation = beginOperation();
+    setError(null);
+
+    try {
+      const langLinks = await activeSource.fetchLangLinks(node.title, node.lang, operation.signal);
+      const counterpart = langLinks.find(l => l.lang === targetLang);
+      if (!counterpart) throw new Error(`NO ${targetLang.toUpperCase()} EDITION OF ${node.title.toUpperCase()}`);
+
+      const data = await activeSource.fetchLinks(counterpart.title, linkLimit, targetLang, operation.signal);
       if (data.nodes.length === 0) throw new Error("No data found");
 
-      const newMainNode = data.nodes[0];
-      if (graphData.nodes.length === 0) newMainNode.source = 'ROOT';
-
-      setGraphData(prevData => {
-         const nodeMap = new Map<string, WikiNode>();
-         prevData.nodes.forEach(n => nodeMap.set(n.id, n));
-         
-         const existingCanonical = nodeMap.get(newMainNode.id);
-         let centerNode: WikiNode;
-
-         if (existingCanonical) {
-             centerNode = existingCanonical;
-             // Upgrade if it was sub
-             if (centerNode.group === 'sub') {
-                 centerNode.group = 'main';
-                 centerNode.description = newMainNode.description;
-             }
-         } else {
-             centerNode = newMainNode;
-             centerNode.group = 'main';
-             // Random start position if not first node
-             if (prevData.nodes.length > 0) {
-                 centerNode.x = (Math.random() - 0.5) * 200;
-                 centerNode.y = (Math.random() - 0.5) * 200;
-             }
-             nodeMap.set(centerNode.id, centerNode);
-         }
-
-         // Add children
-         data.nodes.slice(1).forEach(child => {
-            if (!nodeMap.has(child.id)) {
-                if (centerNode.x !== undefined) {
-                    child.x = centerNode.x + (Math.random() - 0.5) * 50;
-                    child.y = centerNode.y + (Math.random() - 0.5) * 50;
-                }
-                child.source = centerNode.id;
-                nodeMap.set(child.id, child);
-            }
-         });
-
-         // Rebuild Links
-         const linkMap = new Map<string, WikiLink>();
-         const getLinkId = (s: string, t: string) => `${s}->${t}`;
-
-         // Preserve old links
-         prevData.links.forEach(l => {
-            const sid = (typeof l.source === 'object') ? l.source.id : l.source as string;
-            const tid = (typeof l.target === 'object') ? l.target.id : l.target as string;
-            if (nodeMap.has(sid) && nodeMap.has(tid)) {
-                linkMap.set(getLinkId(sid, tid), { source: sid, target: tid, value: l.value });
-            }
-         });
-
-         // Add new links
-         data.links.forEach(l => {
-            const targetId = (typeof l.target === 'object') ? (l.target as WikiNode).id : l.target as string;
-            if (nodeMap.has(targetId)) {
-                const id = getLinkId(centerNode.id, targetId);
-                if (!linkMap.has(id)) linkMap.set(id, { source: centerNode.id, target: targetId, value: 1 });
-            }
-         });
-
-         // Connect new main node to existing main nodes if related
-         nodeMap.forEach((potentialTarget) => {
-             if (potentialTarget.group === 'main' && potentialTarget.id !== centerNode.id) {
-                 if (data.nodes.some(n => n.id === potentialTarget.id)) {
-                     const id = getLinkId(centerNode.id, potentialTarget.id);
-                     if (!linkMap.has(id)) linkMap.set(id, { source: centerNode.id, target: potentialTarget.id, value: 1 });
-                 }
-             }
-         });
-
-         return { nodes: Array.from(nodeMap.values()), links: Array.from(linkMap.values()) };
+      const counterpartNode = data.nodes[0];
+      commit({ kind: 'expand', label: `${node.title} (${targetLang})` }, prevData => {
+        // Start the new cluster beside the original rather than at a random spot
+        const origin = prevData.nodes.find(n => n.id === node.id) || node;
+        const placed = origin.x !== undefined && origin.y !== undefined ? { x: origin.x + 150, y: origin.y } : {};
+        const merged = mergeCluster(prevData, withCenter(data, { source: node.id, ...placed }));
+        const hasLangLink = merged.links.some(l => l.kind === 'langlink' && l.source === node.id && l.target === counterpartNode.id);
+        if (hasLangLink) return merged;
+        return {
+          ...merged,
+          links: [...merged.links, { source: node.id, target: counterpartNode.id, value: 1, kind: 'langlink' }],
+        };
       });
+      setFocusedNodeId(counterpartNode.id);
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      if (err.message === 'Not available offline') setError('NOT AVAILABLE OFFLINE');
+      else setError(err.message || 'FETCH_FAILED');
+    } finally {
+      endOperation(operation);
+    }
+  }, [linkLimit, dataSource, activeSource, graphData.nodes, beginOperation, endOperation, commit]);
+
+  /**
+   * Densify: asks the source which nodes already in the graph link to each other and adds
+   * the missing edges (sub-to-sub, sub-to-main), without adding nodes. Per language edition.
+   */
+  const handleDensify = useCallback(async () => {
+    const fetchLinksBetween = activeSource.fetchLinksBetween;
+    if (!fetchLinksBetween) {
+      setError('NOT AVAILABLE OFFLINE');
+      return;
+    }
+
+    const operation = beginOperation();
+    setError(null);
+
+    try {
+      const byLang = new Map<string, WikiNode[]>();
+      graphData.nodes.forEach(n => byLang.set(n.lang, [...(byLang.get(n.lang) || []), n]));
 
-      setFocusedNodeId(newMainNode.id);
+      const pairs: Array<[string, string]> = [];
+      let complete = true;
+      for (const [nodeLang, nodes] of byLang) {
+        if (nodes.length < 2) continue;
+        // Pages may link to a node under one of its redirect titles
+        const idByTitle = new Map<string, string>();
+        nodes.forEach(n => {
+          idByTitle.set(n.title, n.id);
+          n.aliases?.forEach(a => idByTitle.set(a, n.id));
+        });
+
+        const result = await fetchLinksBetween(nodes.map(n => n.title), Array.from(idByTitle.keys()), nodeLang, operation.signal);
+        complete = complete && result.complete;
+        result.links.forEach(l => {
+          const sid = idByTitle.get(l.source);
+          const tid = idByTitle.get(l.target);
+          if (sid && tid && sid !== tid) pairs.push([sid, tid]);
+        });
+      }
+
+      commit({ kind: 'densify', label: `${pairs.length} links` }, prevData => addLinksBetween(prevData, pairs));
+      if (!complete) setError('DENSIFY INCOMPLETE: REQUEST LIMIT REACHED');
     } catch (err: any) {
+      if (isAbortError(err)) return;
+      setError(err.message || 'FETCH_FAILED');
+    } finally {
+      endOperation(operation);
+    }
+  }, [activeSource, graphData.nodes, beginOperation, endOperation, commit]);
+
+  /**
+   * Searches the shortest chain of links between two articles (in the search language)
+   * and adds it to the graph as a highlighted path.
+   */
+  const handleFindPath = useCallback(async (from: string, to: string, maxDepth: number, maxRequests: number) => {
+    const searchLang = dataSource.supportsLanguages ? lang : dataSource.defaultLang;
+    const operation = beginOperation();
+    setError(null);
+    setPathProgress({ requests: 0, depth: 0 });
+
+    try {
+      const path = await findShortestPath(activeSource, from, to, searchLang, {
+        maxDepth,
+        maxRequests,
+        signal: operation.signal,
+        onProgress: setPathProgress,
+      });
+      if (!path) {
+        setError(`NO PATH WITHIN ${maxDepth} LINKS`);
+        return;
+      }
+      commit({ kind: 'path', label: `${path[0].title} → ${path[path.length - 1].title}` }, prevData => addPath(prevData, path));
+      setFocusedNodeId(path[0].id);
+    } catch (err: any) {
+      if (isAbortError(err)) return;
       if (err.message === 'Page not found') setError('WIKI PAGE NOT FOUND');
+      else if (err.message === 'Not available offline') setError('NOT AVAILABLE OFFLINE');
       else setError(err.message || 'FETCH_FAILED');
     } finally {
-      setIsLoading(false);
+      setPathProgress(null);
+      endOperation(operation);
     }
-  }, [linkLimit, graphData.nodes, handleNodeClick]);
+  }, [lang, dataSource, activeSource, beginOperation, endOperation, commit]);
+
+  /**
+   * Auto-expand: crawls breadth-first from a seed. Level 0 is the seed itself; each further
+   * level expands the strongest not-yet-expanded children of the previous one, at most
+   * `fanOut` per level, until `maxDepth` levels ran or `nodeBudget` new nodes were added.
+   * Every node goes through fetchCluster + mergeExpansion exactly like a click, so the graph
+   * equals the one built by hand (the expansion crossing the budget is kept whole).
+   */
+  const handleCrawl = useCallback(async (seed: string, maxDepth: number, fanOut: number, nodeBudget: number) => {
+    const searchLang = dataSource.supportsLanguages ? lang : dataSource.defaultLang;
+    const seedNode = findNodeByTitle(graphData.nodes, seed, searchLang);
+    const isEmptyGraph = graphData.nodes.length === 0;
+
+    const operation = beginOperation();
+    crawlOperationRef.current = operation;
+    setError(null);
+
+    const knownIds = new Set(graphData.nodes.map(n => n.id));
+    const expandedIds = new Set(graphData.nodes.filter(n => n.group === 'main').map(n => n.id));
+    let frontier: Array<{ title: string; lang: string; anchorId?: string }> = [
+      { title: seedNode?.title ?? seed, lang: seedNode?.lang ?? searchLang, anchorId: seedNode?.id },
+    ];
+    let expanded = 0;
+    let added = 0;
+    let seedId: string | undefined;
+
+    try {
+      for (let level = 0; level < maxDepth && frontier.length > 0 && added < nodeBudget; level++) {
+        const next: typeof frontier = [];
+        const queued = new Set<string>();
+
+        for (const item of frontier.slice(0, fanOut)) {
+          if (added >= nodeBudget) break;
+          setCrawlProgress({ level: level + 1, maxDepth, expanded, added, nodeBudget, current: item.title });
+
+          let data: GraphData;
+          try {
+            data = await fetchCluster(activeSource, item.title, linkLimit, item.lang, 'out', operation.signal);
+          } catch (err: any) {
+            // The seed must exist; a missing page further out is just skipped
+            if (isAbortError(err) || level === 0) throw err;
+            console.warn(`Crawl skipped ${item.title}:`, err);
+            continue;
+          }
+          if (data.nodes.length === 0) continue;
+          // An ambiguous seed needs a choice first; ambiguous pages further out are not crawled
+          if (data.disambiguation) {
+            if (level > 0) continue;
+            setDisambiguation({ data, lang: item.lang, anchorId: item.anchorId });
+            break;
+          }
+
+          const isRoot = level === 0 && isEmptyGraph;
+          if (level === 0) seedId = data.nodes[0].id;
+          // Every step of one crawl undoes together
+          commit(
+            { kind: 'crawl', label: seed },
+            prevData => mergeExpansion(prevData, isRoot ? withCenter(data, { source: 'ROOT' }) : data, item.anchorId, 'out'),
+            operation.signal
+          );
+          expanded++;
+          expandedIds.add(data.nodes[0].id);
+          data.nodes.forEach(n => {
+            if (!knownIds.has(n.id)) {
+              knownIds.add(n.id);
+              added++;
+            }
+          });
+
+          // Children come strongest first, so the next level starts with the best candidates
+          data.nodes.slice(1).forEach(child => {
+            if (expandedIds.has(child.id) || queued.has(child.id)) return;
+            queued.add(child.id);
+            next.push({ title: child.title, lang: child.lang, anchorId: child.id });
+          });
+        }
+        frontier = next;
+      }
+      if (seedId) setFocusedNodeId(seedId);
+    } catch (err: any) {
+      // Stopping keeps everything merged so far
+      if (isAbortError(err)) return;
+      if (err.message === 'Page not found') setError('WIKI PAGE NOT FOUND');
+      else if (err.message === 'Not available offline') setError('NOT AVAILABLE OFFLINE');
+      else setError(err.message || 'FETCH_FAILED');
+    } finally {
+      crawlOperationRef.current = null;
+      setCrawlProgress(null);
+      endOperation(operation);
+    }
+  }, [linkLimit, lang, dataSource, activeSource, graphData.nodes, beginOperation, endOperation, commit]);
+
+  const handleStopCrawl = useCallback(() => {
+    crawlOperationRef.current?.abort();
+  }, []);
+
+  /**
+   * Compares a page's outgoing links at two dates and shows the result in place of the
+   * graph: links that appeared are marked 'added', links that disappeared 'removed'.
+   * Both snapshots are fetched without a link limit so ranking changes do not show up as
+   * removals; unchanged links are then cut to the link limit.
+   */
+  const handleSnapshotDiff = useCallback(async (seed: string, from: string, to: string) => {
+    const searchLang = dataSource.supportsLanguages ? lang : dataSource.defaultLang;
+    const seedNode = findNodeByTitle(graphData.nodes, seed, searchLang);
+    const operation = beginOperation();
+    setError(null);
+
+    try {
+      const [before, after] = await Promise.all([from, to].map(date =>
+        withCache(atSnapshot(dataSource, snapshotTimestamp(date)), { ttl: cacheTtl, offline, onStore: refreshCacheEntries })
+          .fetchLinks(seedNode?.title ?? seed, Infinity, seedNode?.lang ?? searchLang, operation.signal)
+      ));
+      const data = diffClusters(before, after, linkLimit);
+      if (data.nodes.length === 0) throw new Error("No data found");
+
+      setSnapshotDiff({
+        summary: {
+          seed: data.nodes[0].title,
+          from,
+          to,
+          added: data.links.filter(l => l.diff === 'added').length,
+          removed: data.links.filter(l => l.diff === 'removed').length,
+        },
+        data,
+      });
+      setFocusedNodeId(data.nodes[0].id);
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      if (err.message === 'Page not found') setError('WIKI PAGE NOT FOUND');
+      else if (err.message === 'Page did not exist at that date') setError('PAGE DID NOT EXIST AT THAT DATE');
+      else if (err.message === 'Not available offline') setError('NOT AVAILABLE OFFLINE');
+      else setError(err.message || 'FETCH_FAILED');
+    } finally {
+      endOperation(operation);
+    }
+  }, [linkLimit, lang, dataSource, cacheTtl, offline, refreshCacheEntries, graphData.nodes, beginOperation, endOperation]);
+
+  const handleCloseSnapshotDiff = useCallback(() => {
+    setSnapshotDiff(null);
+    setFocusedNodeId(null);
+  }, []);
+
+  // The diff view is read-only: clicking only focuses
+  const handleDiffNodeClick = useCallback((node: WikiNode | null) => {
+    setFocusedNodeId(node ? node.id : null);
+  }, []);
+
+  const handleClearPath = useCallback(() => {
+    commit({ kind: 'path', label: 'cleared path' }, prevData => prevData.path ? { ...prevData, path: undefined } : prevData);
+  }, [commit]);
 
   const handleClearAll = useCallback(() => {
-    setGraphData({ nodes: [], links: [] });
+    // Results still in flight would repopulate the cleared graph
+    handleCancelRequests();
+    enrichedIdsRef.current.clear();
+    commit({ kind: 'clear', label: 'all nodes' }, prevData => prevData.nodes.length > 0 ? { nodes: [], links: [] } : prevData);
+    setViewTransform(null);
+    setSnapshotDiff(null);
+    setDisambiguation(null);
     setFocusedNodeId(null);
     setError(null);
     setSearchTerm('');
+  }, [handleCancelRequests, commit]);
+
+  // What the next save writes; read from timers and page-hide handlers
+  const workspaceStateRef = useRef({ graphData, linkLimit, workspaces, activeWorkspaceId });
+  useEffect(() => {
+    workspaceStateRef.current = { graphData, linkLimit, workspaces, activeWorkspaceId };
+  }, [graphData, linkLimit, workspaces, activeWorkspaceId]);
+
+  // Writes the open workspace now, cancelling a pending autosave
+  const saveWorkspace = useCallback(async () => {
+    clearTimeout(autosaveTimeoutRef.current);
+    const { graphData, linkLimit, workspaces, activeWorkspaceId } = workspaceStateRef.current;
+    // A deleted workspace must not be written back
+    const workspace = workspaces.find(w => w.id === activeWorkspaceId);
+    if (!workspace) return;
+    await putWorkspace({
+      id: workspace.id,
+      name: workspace.name,
+      updatedAt: Date.now(),
+      graph: serializeGraph(graphData),
+      linkLimit,
+      transform: cameraRef.current,
+    });
   }, []);
 
+  const scheduleAutosave = useCallback(() => {
+    clearTimeout(autosaveTimeoutRef.current);
+    autosaveTimeoutRef.current = setTimeout(() => {
+      saveWorkspace().catch(err => console.warn('Could not save workspace:', err));
+    }, AUTOSAVE_DELAY_MS);
+  }, [saveWorkspace]);
+
+  useEffect(() => {
+    scheduleAutosave();
+  }, [graphData, linkLimit, activeWorkspaceId, scheduleAutosave]);
+
+  // Positions settle without a state change; the camera report covers them too
+  const handleViewChange = useCallback((transform: ViewTransform) => {
+    cameraRef.current = transform;
+    scheduleAutosave();
+  }, [scheduleAutosave]);
+
+  // Pins live on the node objects like positions, so they are saved the same way
+  const handlePinChange = useCallback(() => {
+    setPinVersion(v => v + 1);
+    scheduleAutosave();
+  }, [scheduleAutosave]);
+
+  const handleTogglePin = useCallback((nodeId: string) => {
+    setContextMenu(null);
+    updateInPlace(data => {
+      const node = data.nodes.find(n => n.id === nodeId);
+      if (!node) return;
+      const pinned = node.fx != null && node.fy != null;
+      node.fx = pinned ? null : node.x;
+      node.fy = pinned ? null : node.y;
+    });
+    handlePinChange();
+  }, [updateInPlace, handlePinChange]);
+
+  const handleUnpinAll = useCallback(() => {
+    updateInPlace(data => data.nodes.forEach(n => {
+      n.fx = null;
+      n.fy = null;
+    }));
+    handlePinChange();
+  }, [updateInPlace, handlePinChange]);
+
+  // Last chance to save when the tab is hidden or closed
+  useEffect(() => {
+    const flush = () => {
+      if (document.visibilityState === 'hidden') saveWorkspace().catch(() => {});
+    };
+    document.addEventListener('visibilitychange', flush);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', flush);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [saveWorkspace]);
+
   /**
-   * Deletes a node.
-   * If a Main node is deleted, it might downgrade its children back to 'sub' nodes
-   * or remove them if they are not connected to any other Main node.
+   * Rebuilds the exploration a permalink describes, starting from `base` (the graph on
+   * screen): main nodes it does not list are removed, and the seeds and expansions that
+   * are missing are fetched in parallel, then merged in the link's order as one step.
    */
-  const handleDeleteNode = useCallback((nodeId: string) => {
-    setGraphData(prevData => {
-      const targetNode = prevData.nodes.find(n => n.id === nodeId);
-      if (!targetNode) return prevData;
+  const replayPermalink = useCallback(async (link: Permalink, base: GraphData) => {
+    replayOperationRef.current?.abort();
+    const operation = beginOperation();
+    replayOperationRef.current = operation;
+    replayingRef.current = true;
+    try {
+      const steps = [...link.seeds, ...link.expanded];
+      const fetchedAs = new Map(base.nodes.filter(n => n.group === 'main').map(n => [n.id, n.expansion || 'out']));
+      const missing = steps.filter(step => fetchedAs.get(step.id) !== step.mode);
+      const results = await Promise.allSettled(missing.map(step => {
+        const { lang, title } = pageFromId(step.id);
+        return fetchCluster(activeSource, title, link.linkLimit, lang, step.mode, operation.signal);
+      }));
+      if (operation.signal.aborted) return;
 
-      // Identify other main nodes to see if we need to keep connections
-      const otherMainNodeIds = new Set(prevData.nodes.filter(n => n.group === 'main' && n.id !== nodeId).map(n => n.id));
-      
-      const isConnectedToOtherMain = prevData.links.some(l => {
-        const sid = typeof l.source === 'object' ? l.source.id : l.source as string;
-        const tid = typeof l.target === 'object' ? l.target.id : l.target as string;
-        if (sid === nodeId) return otherMainNodeIds.has(tid);
-        if (tid === nodeId) return otherMainNodeIds.has(sid);
-        return false;
-      });
+      // Disambiguation pages are skipped: the link cannot say which meaning was picked
+      const fetched = results.flatMap((r, i) => r.status === 'fulfilled' && r.value.nodes.length > 0 && !r.value.disambiguation
+        ? [{ step: missing[i], data: r.value }]
+        : []);
+      const failures = results.filter(r => r.status === 'rejected').length;
+      const listed = new Set(steps.map(step => step.id));
 
-      // If a main node is connected to another main node, we might just want to demote it to 'sub' instead of deleting
-      const shouldDemote = targetNode.group === 'main' && isConnectedToOtherMain;
-      
-      // Filter out the node (unless demoting)
-      const candidateNodes = prevData.nodes.map(n => n.id === nodeId ? (shouldDemote ? { ...n, group: 'sub' as const } : null) : n).filter((n): n is WikiNode => n !== null);
-      
-      const nodeMap = new Map<string, WikiNode>();
-      candidateNodes.forEach(n => nodeMap.set(n.id, n));
-      
-      const currentMainNodeIds = new Set(candidateNodes.filter(n => n.group === 'main').map(n => n.id));
-      
-      // Cleanup: Remove nodes that are no longer connected to ANY main node
-      const finalNodes = candidateNodes.filter(n => {
-        if (n.group === 'main') return true;
-        // Check if this sub-node has a link to a main node
-        return prevData.links.some(l => {
-          const sid = typeof l.source === 'object' ? l.source.id : l.source as string;
-          const tid = typeof l.target === 'object' ? l.target.id : l.target as string;
-          if (sid === n.id) return currentMainNodeIds.has(tid);
-          if (tid === n.id) return currentMainNodeIds.has(sid);
-          return false;
+      // The URL already shows this link; what the replay ends up with replaces it
+      replayingRef.current = false;
+      replaceHistoryRef.current = true;
+      commit({ kind: 'seed', label: 'permalink' }, prevData => {
+        const unlisted = prevData.nodes.filter(n => n.group === 'main' && !listed.has(n.id)).map(n => n.id);
+        let merged = unlisted.reverse().reduce(removeNode, prevData);
+        fetched.forEach(({ step, data }) => {
+          const existing = merged.nodes.find(n => n.id === step.id);
+          // A counterpart opened with "expand in language" starts beside the node it came from
+          const origin = !existing && step.langlinkFrom ? merged.nodes.find(n => n.id === step.langlinkFrom) : undefined;
+          const center: Partial<WikiNode> = merged.nodes.length === 0 ? { source: 'ROOT' } : {};
+          if (origin) {
+            center.source = origin.id;
+            if (origin.x !== undefined && origin.y !== undefined) {
+              center.x = origin.x + 150;
+              center.y = origin.y;
+            }
+          }
+          merged = mergeCluster(merged, withCenter(data, center), existing?.id);
+          merged = recordExpansion(merged, data.nodes[0].id, step.mode, existing?.group === 'main');
         });
+        const onScreen = new Set(merged.nodes.map(n => n.id));
+        const langlinks = steps.flatMap((step): Array<[string, string]> =>
+          step.langlinkFrom && onScreen.has(step.langlinkFrom) && onScreen.has(step.id) ? [[step.langlinkFrom, step.id]] : []);
+        return addLinksBetween(merged, langlinks, 'langlink');
       });
+      setLinkLimit(link.linkLimit);
+      setShowSubNodes(link.showSubNodes);
+      setFocusedNodeId(link.focusedId);
+      setReplayCount(c => c + 1);
+      if (failures > 0) setError(`${failures} OF ${missing.length} PAGES COULD NOT BE LOADED`);
+    } finally {
+      if (replayOperationRef.current === operation) {
+        replayOperationRef.current = null;
+        replayingRef.current = false;
+      }
+      endOperation(operation);
+    }
+  }, [activeSource, beginOperation, endOperation, commit]);
 
-      const finalNodeIds = new Set(finalNodes.map(n => n.id));
-      
-      // Cleanup Links
-      const finalLinks = prevData.links.map(l => ({
-          source: typeof l.source === 'object' ? l.source.id : l.source as string,
-          target: typeof l.target === 'object' ? l.target.id : l.target as string,
-          value: l.value
-        })).filter(l => {
-            if (!finalNodeIds.has(l.source) || !finalNodeIds.has(l.target)) return false;
-            const s = nodeMap.get(l.source);
-            const t = nodeMap.get(l.target);
-            // Only keep links where at least one end is a Main node (or two main nodes)
-            return s?.group === 'main' || t?.group === 'main';
-        });
+  // Replaces everything on screen with a stored workspace
+  const openWorkspace = useCallback((workspace: Workspace) => {
+    handleCancelRequests();
+    enrichedIdsRef.current.clear();
+    resetGraph(workspace.graph);
+    setLinkLimit(workspace.linkLimit);
+    cameraRef.current = workspace.transform;
+    setViewTransform(workspace.transform);
+    setActiveWorkspace(workspace.id);
+    setActiveWorkspaceId(workspace.id);
+    setSnapshotDiff(null);
+    setDisambiguation(null);
+    setFocusedNodeId(null);
+    setError(null);
+    setSearchTerm('');
+  }, [handleCancelRequests, resetGraph]);
 
-      return { nodes: finalNodes, links: finalLinks };
-    });
+  // Reopen the last workspace (or the most recently saved one); a first visit gets an empty one.
+  // A permalink in the URL showing something else is then replayed, into a new workspace
+  // unless the restored one is empty.
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      let restored: Workspace | undefined;
+      let list: WorkspaceSummary[] = [];
+      try {
+        list = await listWorkspaces();
+        const lastId = getActiveWorkspaceId();
+        const recent = [...list].sort((a, b) => b.updatedAt - a.updatedAt)[0];
+        const id = list.some(w => w.id === lastId) ? lastId : recent?.id;
+        let workspace = id ? await getWorkspace(id) : undefined;
+        if (cancelled) return;
+        if (!workspace) {
+          workspace = createWorkspace('Workspace', workspaceStateRef.current.linkLimit);
+          await putWorkspace(workspace);
+          list.push({ id: workspace.id, name: workspace.name, updatedAt: workspace.updatedAt });
+        }
+        if (cancelled) return;
+        setWorkspaces(list);
+        openWorkspace(workspace);
+        restored = workspace;
+      } catch (err) {
+        console.warn('Workspaces unavailable:', err);
+      }
+
+      const link = decodePermalink(window.location.hash, { linkLimit: restored?.linkLimit ?? workspaceStateRef.current.linkLimit });
+      if (!link || cancelled) return;
+      if (restored && sameExploration(link, permalinkFromGraph(restored.graph, link))) {
+        setLinkLimit(link.linkLimit);
+        setShowSubNodes(link.showSubNodes);
+        setFocusedNodeId(link.focusedId);
+        return;
+      }
+      let base: GraphData = restored?.graph || { nodes: [], links: [] };
+      if (restored && restored.graph.nodes.length > 0) {
+        const workspace = createWorkspace(uniqueWorkspaceName(list, 'Shared link'), link.linkLimit);
+        await putWorkspace(workspace);
+        if (cancelled) return;
+        setWorkspaces(prev => [...prev, { id: workspace.id, name: workspace.name, updatedAt: workspace.updatedAt }]);
+        openWorkspace(workspace);
+        base = workspace.graph;
+      }
+      await replayPermalink(link, base);
+    })()
+      .catch(err => console.warn('Could not open the link:', err))
+      .finally(() => {
+        if (cancelled) return;
+        replaceHistoryRef.current = true; // The page was loaded with this URL
+        setHashReady(true);
+      });
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
+  const refreshWorkspaces = useCallback(() => {
+    listWorkspaces().then(setWorkspaces).catch(err => console.warn('Workspaces unavailable:', err));
+  }, []);
+
+  const handleSwitchWorkspace = useCallback(async (id: string) => {
+    if (id === activeWorkspaceId) return;
+    try {
+      await saveWorkspace();
+      const workspace = await getWorkspace(id);
+      if (!workspace) throw new Error('WORKSPACE NOT FOUND');
+      openWorkspace(workspace);
+    } catch (err: any) {
+      setError(err.message || 'WORKSPACE_FAILED');
+    }
+  }, [activeWorkspaceId, saveWorkspace, openWorkspace]);
+
+  const handleCreateWorkspace = useCallback(async () => {
+    try {
+      await saveWorkspace();
+      const workspace = createWorkspace(uniqueWorkspaceName(workspaces, 'Workspace'), linkLimit);
+      await putWorkspace(workspace);
+      setWorkspaces(prev => [...prev, { id: workspace.id, name: workspace.name, updatedAt: workspace.updatedAt }]);
+      openWorkspace(workspace);
+      refreshWorkspaces();
+    } catch (err: any) {
+      setError(err.message || 'WORKSPACE_FAILED');
+    }
+  }, [workspaces, linkLimit, saveWorkspace, openWorkspace, refreshWorkspaces]);
+
+  const handleRenameWorkspace = useCallback(async (id: string, name: string) => {
+    try {
+      const workspace = await getWorkspace(id);
+      if (!workspace) throw new Error('WORKSPACE NOT FOUND');
+      await putWorkspace({ ...workspace, name });
+      refreshWorkspaces();
+    } catch (err: any) {
+      setError(err.message || 'WORKSPACE_FAILED');
+    }
+  }, [refreshWorkspaces]);
+
+  const handleDuplicateWorkspace = useCallback(async (id: string) => {
+    try {
+      // The copy of the open workspace includes its latest changes
+      await saveWorkspace();
+      const source = await getWorkspace(id);
+      if (!source) throw new Error('WORKSPACE NOT FOUND');
+      const copy: Workspace = { ...source, id: createWorkspaceId(), name: uniqueWorkspaceName(workspaces, `${source.name} copy`), updatedAt: Date.now() };
+      await putWorkspace(copy);
+      setWorkspaces(prev => [...prev, { id: copy.id, name: copy.name, updatedAt: copy.updatedAt }]);
+      openWorkspace(copy);
+      refreshWorkspaces();
+    } catch (err: any) {
+      setError(err.message || 'WORKSPACE_FAILED');
+    }
+  }, [workspaces, saveWorkspace, openWorkspace, refreshWorkspaces]);
+
+  const handleDeleteWorkspace = useCallback(async (id: string) => {
+    const remaining = workspaces.filter(w => w.id !== id);
+    if (remaining.length === 0) return; // There is always one workspace to save into
+    try {
+      // Dropped from the list first so a pending autosave cannot recreate it
+      setWorkspaces(remaining);
+      workspaceStateRef.current = { ...workspaceStateRef.current, workspaces: remaining };
+      clearTimeout(autosaveTimeoutRef.current);
+      await deleteWorkspace(id);
+      if (id === activeWorkspaceId) {
+        const next = await getWorkspace(remaining[0].id);
+        if (next) openWorkspace(next);
+      }
+    } catch (err: any) {
+      setError(err.message || 'WORKSPACE_FAILED');
+    } finally {
+      refreshWorkspaces();
+    }
+  }, [workspaces, activeWorkspaceId, openWorkspace, refreshWorkspaces]);
+
+  // The URL follows the exploration: new or removed main nodes add a history entry;
+  // settings, focus and replayed links replace the current one
+  useEffect(() => {
+    if (!hashReady || replayingRef.current) return;
+    const link = permalinkFromGraph(graphData, { linkLimit, showSubNodes, focusedId: focusedNodeId });
+    const push = !replaceHistoryRef.current && !sameExploration(lastPermalinkRef.current, link);
+    replaceHistoryRef.current = false;
+    lastPermalinkRef.current = link;
+
+    const hash = encodePermalink(link);
+    if (hash === window.location.hash.replace(/^#/, '')) return;
+    const url = hash ? `#${hash}` : window.location.pathname + window.location.search;
+    // Entries remember their workspace, so going back across a switch reopens it
+    const state = { workspaceId: activeWorkspaceId };
+    if (push) window.history.pushState(state, '', url);
+    else window.history.replaceState(state, '', url);
+  }, [hashReady, replayCount, graphData, linkLimit, showSubNodes, focusedNodeId, activeWorkspaceId]);
+
+  // Back/forward (or an edited hash): rebuild the exploration the entry describes
+  useEffect(() => {
+    const handlePopState = async (e: PopStateEvent) => {
+      const link = decodePermalink(window.location.hash, { linkLimit })
+        || { seeds: [], expanded: [], linkLimit, showSubNodes, focusedId: null };
+      try {
+        let base = workspaceStateRef.current.graphData;
+        const workspaceId: string | undefined = e.state?.workspaceId;
+        if (workspaceId && workspaceId !== activeWorkspaceId && workspaces.some(w => w.id === workspaceId)) {
+          await saveWorkspace();
+          const workspace = await getWorkspace(workspaceId);
+          if (workspace) {
+            openWorkspace(workspace);
+            base = workspace.graph;
+          }
+        }
+        await replayPermalink(link, base);
+      } catch (err: any) {
+        setError(err.message || 'NAVIGATION FAILED');
+      }
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [linkLimit, showSubNodes, activeWorkspaceId, workspaces, saveWorkspace, openWorkspace, replayPermalink]);
+
+  /**
+   * Loads an imported graph, either instead of the current one or merged into it.
+   */
+  const handleImportGraph = useCallback((data: GraphData, mode: 'replace' | 'merge', label: string) => {
+    if (mode === 'replace') {
+      handleCancelRequests();
+      enrichedIdsRef.current.clear();
+      setViewTransform(null);
+      setDisambiguation(null);
+    }
+    commit({ kind: 'import', label }, prevData => mode === 'replace' ? data : mergeGraph(prevData, data));
+    setError(null);
+    setFocusedNodeId(null);
+  }, [handleCancelRequests, commit]);
+
+  /**
+   * Deletes a node (or demotes it, see removeNode).
+   */
+  const handleDeleteNode = useCallback((nodeId: string) => {
+    const operation = (prev: GraphData, next: GraphData) => {
+      const title = prev.nodes.find(n => n.id === nodeId)?.title || nodeId;
+      return { kind: next.nodes.some(n => n.id === nodeId) ? 'demote' as const : 'delete' as const, label: title };
+    };
+    commit(operation, prevData => removeNode(prevData, nodeId));
+  }, [commit]);
+
+  /**
+   * Hides the sub-nodes only this main node reaches, or brings them back. They stay in the
+   * graph, positions included, and are only left out when drawing (see collapsedSubNodes).
+   */
+  const handleToggleCollapse = useCallback((nodeId: string) => {
+    setContextMenu(null);
+    const node = graphData.nodes.find(n => n.id === nodeId);
+    if (!node || node.group !== 'main') return;
+    commit({ kind: node.collapsed ? 'reveal' : 'collapse', label: node.title }, prevData => {
+      if (!prevData.nodes.some(n => n.id === nodeId)) return prevData;
+      return {
+        ...prevData,
+        nodes: prevData.nodes.map(n => n.id === nodeId ? { ...n, collapsed: !n.collapsed || undefined } : n),
+      };
+    });
+  }, [graphData.nodes, commit]);
+
+  const disambiguationChoice = disambiguation
+    ? { title: disambiguation.data.nodes[0].title, meanings: disambiguation.data.disambiguation || [] }
+    : null;
+
   return (
     <div className="flex w-screen h-screen overflow-hidden bg-stone-50 relative">
       
@@ -326,6 +1542,7 @@ function App() {
       <div className="hidden md:flex w-[300px] flex-shrink-0 h-full">
          <Sidebar 
             onSearchSubmit={handleSearchSubmit}
+            onFetchSuggestions={handleFetchSuggestions}
             isLoading={isLoading}
             error={error}
             nodes={graphData.nodes}
@@ -335,13 +1552,61 @@ function App() {
             onHoverNode={setHoveredNodeId}
             onFocusNode={setFocusedNodeId}
             onDeleteNode={handleDeleteNode}
+            onToggleCollapse={handleToggleCollapse}
             linkLimit={linkLimit}
             onLinkLimitChange={setLinkLimit}
+            lang={lang}
+            onLangChange={setLang}
+            onExpandInLanguage={handleExpandInLanguage}
+            onExpandNode={handleExpandNode}
+            dataSource={dataSource}
+            onDataSourceChange={setDataSource}
+            cacheEntries={cacheEntries}
+            cacheTtl={cacheTtl}
+            onCacheTtlChange={setCacheTtl}
+            offline={offline}
+            onOfflineChange={setOffline}
+            onDeleteCacheEntry={handleDeleteCacheEntry}
+            onClearCache={handleClearCache}
+            onCancelRequests={handleCancelRequests}
+            onDensify={handleDensify}
+            path={graphData.path}
+            pathProgress={pathProgress}
+            onFindPath={handleFindPath}
+            onClearPath={handleClearPath}
+            crawlProgress={crawlProgress}
+            onCrawl={handleCrawl}
+            onStopCrawl={handleStopCrawl}
+            onSeedSet={handleSeedSet}
+            snapshotDate={snapshotDate}
+            onSnapshotDateChange={setSnapshotDate}
+            snapshotDiff={snapshotDiff?.summary ?? null}
+            onSnapshotDiff={handleSnapshotDiff}
+            onCloseSnapshotDiff={handleCloseSnapshotDiff}
+            disambiguation={disambiguationChoice}
+            onPickMeaning={handlePickMeaning}
+            onAddDisambiguationPage={handleAddDisambiguationPage}
+            onDismissDisambiguation={() => setDisambiguation(null)}
             onClearAll={handleClearAll}
+            nextUndo={nextUndo}
+            nextRedo={nextRedo}
+            onUndo={undo}
+            onRedo={redo}
+            workspaces={workspaces}
+            activeWorkspaceId={activeWorkspaceId}
+            onSwitchWorkspace={handleSwitchWorkspace}
+            onCreateWorkspace={handleCreateWorkspace}
+            onRenameWorkspace={handleRenameWorkspace}
+            onDuplicateWorkspace={handleDuplicateWorkspace}
+            onDeleteWorkspace={handleDeleteWorkspace}
+            onImportGraph={handleImportGraph}
             searchTerm={searchTerm}
             onSearchTermChange={setSearchTerm}
             showSubNodes={showSubNodes}
             onToggleSubNodes={() => setShowSubNodes(!showSubNodes)}
+            layoutFrozen={layoutFrozen}
+            onToggleFreeze={() => setLayoutFrozen(!layoutFrozen)}
+            onUnpinAll={handleUnpinAll}
             onResetView={() => {
                 setResetViewTrigger(prev => prev + 1);
                 setFocusedNodeId(null);
@@ -355,12 +1620,27 @@ function App() {
             <Logo />
         </div>
 
-        {graphData.nodes.length > 0 ? (
+        {snapshotDiff ? (
+          <NetworkGraph 
+            data={snapshotDiff.data} width={dimensions.width} height={dimensions.height} 
+            onNodeClick={handleDiffNodeClick} focusedNodeId={focusedNodeId} hoveredNodeId={hoveredNodeId}
+            onNodeHover={setHoveredNodeId} searchTerm={searchTerm} showSubNodes={true} resetViewTrigger={resetViewTrigger}
+            onInteraction={() => setFocusedNodeId(null)}
+          />
+        ) : graphData.nodes.length > 0 ? (
           <NetworkGraph 
             data={graphData} width={dimensions.width} height={dimensions.height} 
             onNodeClick={handleNodeClick} focusedNodeId={focusedNodeId} hoveredNodeId={hoveredNodeId}
             onNodeHover={setHoveredNodeId} searchTerm={searchTerm} showSubNodes={showSubNodes} resetViewTrigger={resetViewTrigger}
             onInteraction={() => setFocusedNodeId(null)}
+            onNodeContextMenu={handleNodeContextMenu}
+            unavailableNodeIds={unavailableNodeIds}
+            onVisibleNodesChange={enrichNodes}
+            onViewChange={handleViewChange}
+            viewTransform={viewTransform}
+            frozen={layoutFrozen}
+            onPinChange={handlePinChange}
+            pinVersion={pinVersion}
           />
         ) : (
           <div className="absolute inset-0 flex items-center justify-center opacity-10 pointer-events-none">
@@ -370,6 +1650,28 @@ function App() {
           </div>
         )}
         
+        {/* Legend of the snapshot diff */}
+        {snapshotDiff && (
+          <div className="absolute top-4 right-4 z-10 bg-white border border-black px-3 py-2 font-mono text-[10px] uppercase flex flex-col gap-1">
+            <span className="font-bold">{snapshotDiff.summary.from} → {snapshotDiff.summary.to}</span>
+            <span className="flex items-center gap-2"><span className="w-4 h-[2px] bg-green-600" />Added ({snapshotDiff.summary.added})</span>
+            <span className="flex items-center gap-2"><span className="w-4 h-[2px] bg-red-600" />Removed ({snapshotDiff.summary.removed})</span>
+          </div>
+        )}
+
+        {contextMenu && (
+          <NodeContextMenu
+            node={graphData.nodes.find(n => n.id === contextMenu.nodeId) || null}
+            x={contextMenu.x}
+            y={contextMenu.y}
+            isLoading={isLoading}
+            onExpand={handleExpandNode}
+            onToggleCollapse={handleToggleCollapse}
+            onTogglePin={handleTogglePin}
+            onClose={() => setContextMenu(null)}
+          />
+        )}
+        
         {/* Footer text (Hidden on mobile if it overlaps heavily, but keeping standard layout) */}
         <div className="hidden md:flex absolute bottom-4 left-6 flex-col items-start gap-1 pointer-events-none z-0">
            <span className="text-[8px] font-mono opacity-40 uppercase">
@@ -384,11 +1686,19 @@ function App() {
       {/* Mobile Controls: Hidden on Desktop */}
       <MobileControls 
         onSearchSubmit={handleSearchSubmit}
+        onFetchSuggestions={handleFetchSuggestions}
         isLoading={isLoading}
         nodes={graphData.nodes}
         links={graphData.links}
         linkLimit={linkLimit}
         onLinkLimitChange={setLinkLimit}
+        lang={lang}
+        onLangChange={setLang}
+        supportsLanguages={dataSource.supportsLanguages}
+        disambiguation={disambiguationChoice}
+        onPickMeaning={handlePickMeaning}
+        onAddDisambiguationPage={handleAddDisambiguationPage}
+        onDismissDisambiguation={() => setDisambiguation(null)}
         onClearAll={handleClearAll}
         searchTerm={searchTerm}
         onSearchTermChange={setSearchTerm}
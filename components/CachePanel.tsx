@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { HardDrives, CaretDown, CaretUp, WifiSlash, WifiHigh, X } from '@phosphor-icons/react';
+import { CacheEntry } from '../types';
+
+interface CachePanelProps {
+  entries: CacheEntry[];
+  ttl: number; // ms
+  onTtlChange: (ttl: number) => void;
+  offline: boolean;
+  onOfflineChange: (offline: boolean) => void;
+  onDeleteEntry: (key: string) => void;
+  onClearCache: () => void;
+}
+
+const HOUR = 60 * 60 * 1000;
+const TTL_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: HOUR, label: '1 hour' },
+  { value: 24 * HOUR, label: '1 day' },
+  { value: 7 * 24 * HOUR, label: '1 week' },
+  { value: 30 * 24 * HOUR, label: '30 days' },
+];
+
+const KIND_LABEL: Record<CacheEntry['kind'], string> = { links: 'OUT', backlinks: 'IN', langlinks: 'LANG' };
+
+const formatAge = (ms: number): string => {
+  if (ms < HOUR) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  if (ms < 24 * HOUR) return `${Math.round(ms / HOUR)}h`;
+  return `${Math.round(ms / (24 * HOUR))}d`;
+};
+
+/**
+ * Offline switch plus an inspector for the persistent response cache.
+ */
+export const CachePanel: React.FC<CachePanelProps> = ({
+  entries,
+  ttl,
+  onTtlChange,
+  offline,
+  onOfflineChange,
+  onDeleteEntry,
+  onClearCache,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const now = Date.now();
+  const sorted = [...entries].sort((a, b) => b.storedAt - a.storedAt);
+
+  return (
+    <div className="border-b border-black bg-stone-50 shrink-0 font-mono text-[10px] uppercase">
+      <div className="flex items-center h-[28px] px-3 gap-2">
+        <HardDrives size={12} weight="regular" className="shrink-0" />
+        <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-1 hover:underline" title="inspect cache">
+          <span>Cache ({entries.length})</span>
+          {isOpen ? <CaretUp size={10} /> : <CaretDown size={10} />}
+        </button>
+        <button
+          onClick={() => onOfflineChange(!offline)}
+          className={`ml-auto flex items-center gap-1 px-1 border border-black ${offline ? 'bg-black text-white' : 'hover:bg-stone-200'}`}
+          title={offline ? 'offline: graphs are built from cached pages only' : 'online: fetch and cache'}
+        >
+          {offline ? <WifiSlash size={10} /> : <WifiHigh size={10} />}
+          <span>{offline ? 'Offline' : 'Online'}</span>
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="border-t border-black">
+          <div className="flex items-center h-[28px] px-3 gap-2 border-b border-black">
+            <span className="text-gray-400">TTL</span>
+            <select
+              value={ttl}
+              onChange={(e) => onTtlChange(Number(e.target.value))}
+              className="bg-transparent outline-none uppercase cursor-pointer"
+            >
+              {TTL_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+            <button
+              onClick={onClearCache}
+              disabled={entries.length === 0}
+              className="ml-auto hover:underline disabled:opacity-40 disabled:no-underline"
+            >
+              Clear All
+            </button>
+          </div>
+
+          <div className="max-h-[160px] overflow-y-auto">
+            {sorted.length === 0 && <div className="px-3 py-2 text-gray-400">Empty</div>}
+            {sorted.map(entry => {
+              const age = now - entry.storedAt;
+              const isExpired = age >= ttl;
+              return (
+                <div key={entry.key} className="flex items-center gap-2 px-3 h-[22px] border-b border-stone-200 last:border-b-0 group">
+                  <span className="truncate normal-case flex-1" title={`${entry.source} // ${entry.title}`}>{entry.title}</span>
+                  <span className="text-gray-400 shrink-0">{entry.lang}</span>
+                  <span className="text-gray-400 shrink-0">{KIND_LABEL[entry.kind]}</span>
+                  {entry.kind !== 'langlinks' && (
+                    <span className="text-gray-400 shrink-0">{entry.maxLinks === Infinity ? 'ALL' : entry.maxLinks}</span>
+                  )}
+                  <span className={`shrink-0 ${isExpired ? 'text-red-600' : 'text-gray-400'}`} title={isExpired ? 'expired; refetched when online' : 'fresh'}>
+                    {formatAge(age)}
+                  </span>
+                  <button onClick={() => onDeleteEntry(entry.key)} className="shrink-0 opacity-0 group-hover:opacity-100 hover:text-red-600" title="remove entry">
+                    <X size={10} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { ArrowRight, Stop } from '@phosphor-icons/react';
+
+// Live state of a running auto-expand crawl
+export interface CrawlProgress {
+  level: number; // 1-based level being expanded
+  maxDepth: number;
+  expanded: number; // Nodes expanded so far
+  added: number; // New nodes added so far
+  nodeBudget: number;
+  current: string; // Title being fetched
+}
+
+interface CrawlPanelProps {
+  defaultSeed?: string; // Seed used while the field is empty, e.g. the focused node
+  isLoading: boolean;
+  progress: CrawlProgress | null; // Set while a crawl runs
+  onCrawl: (seed: string, maxDepth: number, fanOut: number, nodeBudget: number) => void;
+  onStop: () => void;
+}
+
+const DEPTH_OPTIONS = [1, 2, 3, 4];
+const FAN_OUT_OPTIONS = [5, 10, 20, 50];
+const BUDGET_OPTIONS = [100, 250, 500, 1000, 2000];
+
+/**
+ * Auto-expand form: seed, depth, fan-out per level and node budget; progress and a
+ * stop button while the crawl runs.
+ */
+export const CrawlPanel: React.FC<CrawlPanelProps> = ({ defaultSeed, isLoading, progress, onCrawl, onStop }) => {
+  const [seed, setSeed] = useState('');
+  const [maxDepth, setMaxDepth] = useState(2);
+  const [fanOut, setFanOut] = useState(10);
+  const [nodeBudget, setNodeBudget] = useState(500);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const start = seed.trim() || defaultSeed;
+    if (start) onCrawl(start, maxDepth, fanOut, nodeBudget);
+  };
+
+  const selectClass = "h-full px-2 bg-transparent outline-none uppercase cursor-pointer border-r border-black disabled:cursor-not-allowed";
+
+  return (
+    <div className="border-b border-black bg-stone-50 shrink-0 font-mono text-[10px] uppercase">
+      <form onSubmit={handleSubmit}>
+        <div className="flex items-center h-[28px] px-3 gap-2">
+          <span className="text-gray-400 w-[32px] shrink-0">Seed</span>
+          <input
+            type="text"
+            value={seed}
+            disabled={!!progress}
+            onChange={(e) => setSeed(e.target.value)}
+            placeholder={defaultSeed || 'wiki title'}
+            className="flex-1 min-w-0 bg-transparent outline-none normal-case placeholder:text-gray-400"
+          />
+        </div>
+        <div className="flex items-center h-[28px] border-t border-black">
+          <select value={maxDepth} disabled={!!progress} onChange={(e) => setMaxDepth(Number(e.target.value))} className={selectClass} title="levels to expand">
+            {DEPTH_OPTIONS.map(d => <option key={d} value={d}>Depth {d}</option>)}
+          </select>
+          <select value={fanOut} disabled={!!progress} onChange={(e) => setFanOut(Number(e.target.value))} className={selectClass} title="nodes expanded per level">
+            {FAN_OUT_OPTIONS.map(f => <option key={f} value={f}>{f}/lvl</option>)}
+          </select>
+          <select value={nodeBudget} disabled={!!progress} onChange={(e) => setNodeBudget(Number(e.target.value))} className={selectClass} title="stop after this many new nodes">
+            {BUDGET_OPTIONS.map(b => <option key={b} value={b}>{b} nodes</option>)}
+          </select>
+          {progress ? (
+            <button
+              type="button"
+              onClick={onStop}
+              className="ml-auto h-full aspect-square bg-red-600 text-white flex items-center justify-center"
+              title="stop crawl (keeps what was found)"
+            >
+              <Stop size={12} weight="fill" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={isLoading || !(seed.trim() || defaultSeed)}
+              className="ml-auto h-full aspect-square bg-black text-white flex items-center justify-center disabled:opacity-60"
+              title="start crawl"
+            >
+              <ArrowRight size={12} />
+            </button>
+          )}
+        </div>
+      </form>
+
+      {progress && (
+        <div className="border-t border-black px-3 py-2 flex flex-col gap-1">
+          <div className="flex justify-between text-gray-500">
+            <span>Level {progress.level}/{progress.maxDepth} · {progress.expanded} expanded</span>
+            <span>{progress.added}/{progress.nodeBudget}</span>
+          </div>
+          <div className="h-[4px] border border-black">
+            <div className="h-full bg-black" style={{ width: `${Math.min(100, (progress.added / progress.nodeBudget) * 100)}%` }} />
+          </div>
+          <span className="truncate normal-case text-gray-500">{progress.current}</span>
+        </div>
+      )}
+    </div>
+  );
+};
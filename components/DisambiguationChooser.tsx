@@ -0,0 +1,57 @@
+import React from 'react';
+import { Signpost, X } from '@phosphor-icons/react';
+import { SearchSuggestion } from '../types';
+
+interface DisambiguationChooserProps {
+  title: string; // The disambiguation page
+  meanings: SearchSuggestion[];
+  isLoading: boolean;
+  onPick: (title: string) => void;
+  onAddPage: () => void; // Add the disambiguation page itself, as a normal cluster
+  onDismiss: () => void;
+}
+
+/**
+ * Lists the meanings of a disambiguation page so the user adds the one they meant
+ * instead of a cluster mixing unrelated topics.
+ */
+export const DisambiguationChooser: React.FC<DisambiguationChooserProps> = ({
+  title,
+  meanings,
+  isLoading,
+  onPick,
+  onAddPage,
+  onDismiss,
+}) => (
+  <div className="border-b border-black bg-white shrink-0 font-mono text-[10px] uppercase">
+    <div className="flex items-center h-[28px] px-3 gap-2 border-b border-black bg-stone-50">
+      <Signpost size={12} className="shrink-0" />
+      <span className="truncate"><span className="font-bold normal-case">{title}</span> may refer to</span>
+      <button onClick={onDismiss} className="ml-auto hover:text-red-600" title="dismiss">
+        <X size={12} />
+      </button>
+    </div>
+    <ul className="max-h-[240px] overflow-y-auto custom-scrollbar">
+      {meanings.map(m => (
+        <li key={m.title}>
+          <button
+            onClick={() => onPick(m.title)}
+            disabled={isLoading}
+            className="w-full text-left px-3 py-1 border-b border-black hover:bg-stone-200 disabled:opacity-60"
+          >
+            <div className="text-xs normal-case truncate">{m.title}</div>
+            {m.description && <div className="text-gray-500 truncate leading-tight">{m.description}</div>}
+          </button>
+        </li>
+      ))}
+    </ul>
+    <button
+      onClick={onAddPage}
+      disabled={isLoading}
+      className="w-full h-[28px] px-3 text-left text-gray-500 hover:bg-stone-200 disabled:opacity-60"
+      title="add the disambiguation page with all its links"
+    >
+      Add the list page itself
+    </button>
+  </div>
+);
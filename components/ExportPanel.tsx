@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Export, CaretDown, CaretUp, Image as ImageIcon } from '@phosphor-icons/react';
+import { GraphData } from '../types';
+import { EXPORT_FORMATS, ExportFormat, exportGraph, downloadFile, GRAPH_JSON_SCHEMA } from '../services/graphExport';
+import { exportGraphImage, ImageExportOptions } from '../services/imageExport';
+
+interface ExportPanelProps {
+  data: GraphData;
+  basename: string; // File name without extension
+}
+
+const PNG_SCALES = [1, 2, 3, 4];
+
+/**
+ * Downloads the graph for Gephi, Cytoscape, NetworkX, Graphviz or a spreadsheet, or the
+ * current view as an SVG or PNG picture.
+ */
+export const ExportPanel: React.FC<ExportPanelProps> = ({ data, basename }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [image, setImage] = useState<ImageExportOptions>({ format: 'png', area: 'viewport', includeSubLabels: false, scale: 2 });
+  const [isRendering, setIsRendering] = useState(false);
+  const [imageError, setImageError] = useState<string | null>(null);
+  const isEmpty = data.nodes.length === 0;
+
+  const handleExport = (format: ExportFormat) => exportGraph(data, format, basename);
+
+  const handleImage = async () => {
+    setIsRendering(true);
+    setImageError(null);
+    try {
+      await exportGraphImage(image, basename);
+    } catch (err: any) {
+      setImageError(err.message || 'IMAGE EXPORT FAILED');
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const selectClass = "h-full px-2 bg-transparent outline-none uppercase cursor-pointer border-r border-black disabled:cursor-not-allowed disabled:opacity-40";
+
+  const handleSchema = () => downloadFile('wikicluster-graph.schema.json', JSON.stringify(GRAPH_JSON_SCHEMA, null, 2), 'application/schema+json');
+
+  return (
+    <div className="border-b border-black bg-stone-50 shrink-0 font-mono text-[10px] uppercase">
+      <div className="flex items-center h-[28px] px-3 gap-2">
+        <Export size={12} weight="regular" className="shrink-0" />
+        <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-1 hover:underline" title="download the graph">
+          <span>Export</span>
+          {isOpen ? <CaretUp size={10} /> : <CaretDown size={10} />}
+        </button>
+        <span className="ml-auto text-gray-400">{data.nodes.length} nodes · {data.links.length} links</span>
+      </div>
+
+      {isOpen && (
+        <div className="border-t border-black">
+          <div className="grid grid-cols-3">
+            {EXPORT_FORMATS.map(({ format, label }, i) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={isEmpty}
+                className={`h-[28px] border-b border-black ${i % 3 < 2 ? 'border-r' : ''} hover:bg-stone-200 disabled:opacity-40 disabled:hover:bg-transparent`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center h-[28px] px-3 gap-2 text-gray-500 normal-case">
+            <span className="truncate">JSON fields are described in its schema</span>
+            <button onClick={handleSchema} className="ml-auto uppercase hover:underline shrink-0" title="JSON Schema of the JSON export">
+              Schema
+            </button>
+          </div>
+
+          {/* Picture of the graph as drawn */}
+          <div className="flex items-center h-[28px] border-t border-black">
+            <select value={image.area} onChange={(e) => setImage({ ...image, area: e.target.value as ImageExportOptions['area'] })} className={selectClass} title="what the picture shows">
+              <option value="viewport">Viewport</option>
+              <option value="full">Full graph</option>
+            </select>
+            <select value={image.format} onChange={(e) => setImage({ ...image, format: e.target.value as ImageExportOptions['format'] })} className={selectClass}>
+              <option value="png">PNG</option>
+              <option value="svg">SVG</option>
+            </select>
+            <select
+              value={image.scale}
+              disabled={image.format !== 'png'}
+              onChange={(e) => setImage({ ...image, scale: Number(e.target.value) })}
+              className={selectClass}
+              title="pixels per screen pixel"
+            >
+              {PNG_SCALES.map(s => <option key={s} value={s}>{s}×</option>)}
+            </select>
+          </div>
+          <div className="flex items-center h-[28px] border-t border-black">
+            <label className="flex items-center gap-2 px-3 cursor-pointer" title="sub-node labels are hidden when zoomed out">
+              <input
+                type="checkbox"
+                checked={image.includeSubLabels}
+                onChange={(e) => setImage({ ...image, includeSubLabels: e.target.checked })}
+                className="accent-black"
+              />
+              <span>Sub-node labels</span>
+            </label>
+            <button
+              onClick={handleImage}
+              disabled={isEmpty || isRendering}
+              className="ml-auto h-full px-3 bg-black text-white flex items-center gap-2 disabled:opacity-60"
+            >
+              <ImageIcon size={12} />
+              <span>{isRendering ? 'Rendering…' : 'Save image'}</span>
+            </button>
+          </div>
+          {imageError && (
+            <div className="px-3 py-1 border-t border-black text-red-600">Error: {imageError}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState, useRef } from 'react';
+import { DownloadSimple, CaretDown, CaretUp, X } from '@phosphor-icons/react';
+import { GraphData } from '../types';
+import { parseImportFiles, ImportResult } from '../services/graphImport';
+
+interface ImportPanelProps {
+  lang: string; // Edition for titles that do not name one
+  hasNodes: boolean; // Merging only makes sense into an existing graph
+  onImport: (data: GraphData, mode: 'replace' | 'merge', label: string) => void;
+}
+
+// Problems shown before "and N more"
+const VISIBLE_PROBLEMS = 3;
+
+/**
+ * Loads a graph from the app's JSON export, GraphML, or CSV node and/or edge lists.
+ * The file is checked first; the user then replaces the graph with it or merges it in.
+ */
+export const ImportPanel: React.FC<ImportPanelProps> = ({ lang, hasNodes, onImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [pending, setPending] = useState<(ImportResult & { label: string }) | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = ''; // Picking the same file again still fires a change
+    if (files.length === 0) return;
+    setPending(null);
+    setError(null);
+    try {
+      const texts = await Promise.all(files.map(async f => ({ name: f.name, text: await f.text() })));
+      const result = parseImportFiles(texts, lang);
+      setPending({ ...result, label: files.map(f => f.name).join(' + ') });
+    } catch (err: any) {
+      setError(err.message || 'IMPORT FAILED');
+    }
+  };
+
+  const handleImport = (mode: 'replace' | 'merge') => {
+    if (!pending) return;
+    onImport(pending.data, mode, pending.label);
+    setPending(null);
+  };
+
+  return (
+    <div className="border-b border-black bg-stone-50 shrink-0 font-mono text-[10px] uppercase">
+      <div className="flex items-center h-[28px] px-3 gap-2">
+        <DownloadSimple size={12} weight="regular" className="shrink-0" />
+        <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-1 hover:underline" title="load a graph from a file">
+          <span>Import</span>
+          {isOpen ? <CaretUp size={10} /> : <CaretDown size={10} />}
+        </button>
+        {isOpen && (
+          <button onClick={() => inputRef.current?.click()} className="ml-auto px-1 border border-black hover:bg-stone-200">
+            Choose file
+          </button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,.graphml,.xml,.csv,.tsv,.txt"
+          multiple
+          onChange={handleFiles}
+          className="hidden"
+        />
+      </div>
+
+      {isOpen && !pending && !error && (
+        <div className="border-t border-black px-3 py-1 text-gray-500 normal-case leading-tight">
+          JSON export, GraphML, or CSV: a node list, an edge list (source, target), or both. Titles without a language go to {lang.toUpperCase()}.
+        </div>
+      )}
+
+      {isOpen && error && (
+        <div className="border-t border-black px-3 py-1 text-red-600">Error: {error}</div>
+      )}
+
+      {isOpen && pending && (
+        <div className="border-t border-black">
+          <div className="flex items-center h-[28px] px-3 gap-2 border-b border-black">
+            <span className="truncate normal-case">{pending.label}</span>
+            <span className="ml-auto shrink-0 text-gray-500">{pending.data.nodes.length} nodes · {pending.data.links.length} links</span>
+            <button onClick={() => setPending(null)} className="hover:text-red-600 shrink-0" title="discard">
+              <X size={10} />
+            </button>
+          </div>
+          {pending.problems.length > 0 && (
+            <div className="px-3 py-1 border-b border-black text-red-600 normal-case leading-tight">
+              {pending.problems.slice(0, VISIBLE_PROBLEMS).map(p => <div key={p} className="truncate" title={p}>Skipped: {p}</div>)}
+              {pending.problems.length > VISIBLE_PROBLEMS && (
+                <div title={pending.problems.slice(VISIBLE_PROBLEMS).join('\n')}>and {pending.problems.length - VISIBLE_PROBLEMS} more</div>
+              )}
+            </div>
+          )}
+          <div className="grid grid-cols-2 h-[28px]">
+            <button onClick={() => handleImport('replace')} className="border-r border-black hover:bg-stone-200" title="clear the graph and load the file">
+              Replace
+            </button>
+            <button
+              onClick={() => handleImport('merge')}
+              disabled={!hasNodes}
+              className="hover:bg-stone-200 disabled:opacity-40 disabled:hover:bg-transparent"
+              title="add the file's nodes and links to the graph"
+            >
+              Merge
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
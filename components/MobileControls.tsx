@@ -12,15 +12,22 @@ import {
   CaretUp,
   CaretDown
 } from '@phosphor-icons/react';
-import { WikiNode, WikiLink } from '../types';
+import { WikiNode, WikiLink, SearchSuggestion } from '../types';
+import { WIKI_LANGUAGES } from '../services/wikiService';
+import { SearchSuggest } from './SearchSuggest';
+import { DisambiguationChooser } from './DisambiguationChooser';
 
 interface MobileControlsProps {
   onSearchSubmit: (url: string) => void;
+  onFetchSuggestions?: (query: string, signal: AbortSignal) => Promise<SearchSuggestion[]>;
   isLoading: boolean;
   nodes: WikiNode[];
   links: WikiLink[];
   linkLimit: number;
   onLinkLimitChange: (limit: number) => void;
+  lang: string;
+  onLangChange: (lang: string) => void;
+  supportsLanguages: boolean;
   onClearAll: () => void;
   searchTerm: string;
   onSearchTermChange: (term: string) => void;
@@ -32,15 +39,23 @@ interface MobileControlsProps {
   onHoverNode: (id: string | null) => void;
   onFocusNode: (id: string | null) => void;
   onDeleteNode: (id: string) => void;
+  disambiguation: { title: string; meanings: SearchSuggestion[] } | null;
+  onPickMeaning: (title: string) => void;
+  onAddDisambiguationPage: () => void;
+  onDismissDisambiguation: () => void;
 }
 
 export const MobileControls: React.FC<MobileControlsProps> = ({
   onSearchSubmit,
+  onFetchSuggestions,
   isLoading,
   nodes,
   links,
   linkLimit,
   onLinkLimitChange,
+  lang,
+  onLangChange,
+  supportsLanguages,
   onClearAll,
   searchTerm,
   onSearchTermChange,
@@ -49,7 +64,11 @@ export const MobileControls: React.FC<MobileControlsProps> = ({
   onResetView,
   focusedNodeId,
   onFocusNode,
-  onDeleteNode
+  onDeleteNode,
+  disambiguation,
+  onPickMeaning,
+  onAddDisambiguationPage,
+  onDismissDisambiguation
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [inputVal, setInputVal] = useState('');
@@ -69,6 +88,13 @@ export const MobileControls: React.FC<MobileControlsProps> = ({
     }
   };
 
+  // A picked suggestion or a pasted list goes straight to the search
+  const handleSubmitText = (text: string) => {
+    onSearchSubmit(text);
+    setInputVal('');
+    setIsOpen(false);
+  };
+
   const handleSliderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const val = parseInt(e.target.value);
     if (val >= 2000) onLinkLimitChange(Infinity);
@@ -127,7 +153,8 @@ export const MobileControls: React.FC<MobileControlsProps> = ({
                         <div className="flex justify-between items-center">
                             <div className="flex items-center gap-2">
                                 <span className="font-mono text-[10px] text-gray-400">{String(idx + 1).padStart(2, '0')}</span>
-                                <span className="font-bold text-sm uppercase truncate max-w-[200px]">{node.id}</span>
+                                <span className="font-bold text-sm uppercase truncate max-w-[200px]">{node.title}</span>
+                                <span className="font-mono text-[9px] border border-black px-1 leading-tight uppercase">{node.lang}</span>
                             </div>
                             <div className="flex gap-2">
                                 <button onClick={(e) => { e.stopPropagation(); onDeleteNode(node.id); }} className="p-1 hover:text-red-600">
@@ -146,6 +173,20 @@ export const MobileControls: React.FC<MobileControlsProps> = ({
         </div>
       </div>
 
+      {/* Meaning chooser of an ambiguous search, above the toolbar and its drawer toggle */}
+      {disambiguation && (
+        <div className="pointer-events-auto border-t border-black mb-8">
+          <DisambiguationChooser
+            title={disambiguation.title}
+            meanings={disambiguation.meanings}
+            isLoading={isLoading}
+            onPick={onPickMeaning}
+            onAddPage={onAddDisambiguationPage}
+            onDismiss={onDismissDisambiguation}
+          />
+        </div>
+      )}
+
       {/* Main Toolbar Wrapper (Relative for Absolute Button Positioning) */}
       <div className="relative pointer-events-auto z-10">
         
@@ -165,21 +206,35 @@ export const MobileControls: React.FC<MobileControlsProps> = ({
         {/* Main Toolbar Content */}
         <div className="bg-stone-50 border-t border-black shadow-[0_-2px_10px_rgba(0,0,0,0.05)] relative z-10">
             {/* Row 1: Search - Added mb-0 to ensure no browser default margin */}
-            <form onSubmit={handleSubmit} className="flex h-10 border-b border-black mb-0">
+            <form onSubmit={handleSubmit} className="relative flex h-10 border-b border-black mb-0">
                 <div className="flex-1 flex items-center px-3 gap-2 bg-stone-50">
                     <MagnifyingGlass size={16} />
-                    <input 
-                        type="text" 
+                    {/* The toolbar sits at the bottom of the screen, so suggestions open upwards */}
+                    <SearchSuggest
                         className="flex-1 bg-transparent outline-none text-xs font-mono h-full"
                         placeholder=": /wiki title"
                         value={inputVal}
-                        onChange={(e) => {
-                            setInputVal(e.target.value);
-                            onSearchTermChange(e.target.value);
+                        onChange={(val) => {
+                            setInputVal(val);
+                            onSearchTermChange(val);
                         }}
+                        onSelect={handleSubmitText}
+                        onPasteList={handleSubmitText}
+                        fetchSuggestions={onFetchSuggestions}
+                        placement="above"
                     />
                     {inputVal && <button type="button" onClick={() => { setInputVal(''); onSearchTermChange(''); }}><Trash size={16} /></button>}
                 </div>
+                {supportsLanguages && (
+                <select
+                    value={lang}
+                    onChange={(e) => onLangChange(e.target.value)}
+                    className="h-full border-l border-black bg-stone-50 px-2 outline-none font-mono text-[10px] uppercase"
+                    title="Wikipedia language edition"
+                >
+                    {WIKI_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.code.toUpperCase()}</option>)}
+                </select>
+                )}
                 <button type="submit" disabled={isLoading} className="aspect-square h-full bg-black text-white flex items-center justify-center border-l border-black">
                     {isLoading ? <CircleNotch size={16} className="animate-spin" /> : <ArrowRight size={16} />}
                 </button>
@@ -1,8 +1,9 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { GraphData, WikiNode, WikiLink } from '../types';
+import { GraphData, WikiNode, WikiLink, ViewTransform } from '../types';
 import { Tooltip } from './Tooltip';
+import { collapsedSubNodes } from '../services/collapse';
 
 interface NetworkGraphProps {
   data: GraphData;
@@ -16,8 +17,57 @@ interface NetworkGraphProps {
   showSubNodes?: boolean;
   resetViewTrigger?: number;
   onInteraction?: () => void; // Callback to unlock camera on manual user interaction
+  onNodeContextMenu?: (node: WikiNode, x: number, y: number) => void; // Right-click on a node (expansion menu)
+  unavailableNodeIds?: Set<string>; // Nodes that cannot be expanded right now (offline mode, not cached)
+  onVisibleNodesChange?: (nodeIds: string[]) => void; // Nodes inside the viewport, reported once the view settles
+  onViewChange?: (transform: ViewTransform) => void; // Camera, reported once the view settles (zoom or layout)
+  viewTransform?: ViewTransform | null; // Camera to jump to whenever a new object is passed (e.g. a restored workspace)
+  frozen?: boolean; // Layout frozen: no simulation, nodes only move when dragged
+  onPinChange?: () => void; // A node was pinned or unpinned by dragging (fx/fy written onto the node)
+  pinVersion?: number; // Bumped when pins change outside the graph, so the markers are redrawn
 }
 
+/**
+ * Maps link weights (WikiLink.value) onto 0..1 for styling. A square-root scale keeps one
+ * heavily repeated link from flattening all the others. Uniform weights map to 0.
+ */
+const createWeightScale = (links: WikiLink[]): ((value: number) => number) => {
+  const min = d3.min(links, l => l.value) ?? 1;
+  const max = d3.max(links, l => l.value) ?? 1;
+  if (max <= min) return () => 0;
+  return d3.scaleSqrt().domain([min, max]).range([0, 1]).clamp(true);
+};
+
+// Resting link styles: stronger relationships are drawn thicker and darker
+const linkOpacity = (isMain: boolean, weight: number) => isMain ? 0.6 + 0.4 * weight : 0.1 + 0.5 * weight;
+const linkWidth = (isMain: boolean, weight: number) => isMain ? 2 + 3 * weight : 0.5 + 2 * weight;
+
+// Shortest-path chain (GraphData.path)
+const PATH_COLOR = "#2563eb";
+const PATH_LINK_WIDTH = 4;
+
+// Keys of the path's links, in both directions (the chain may reuse a reversed edge)
+const pathLinkKeys = (path: string[] = []): Set<string> => {
+  const keys = new Set<string>();
+  path.slice(1).forEach((id, i) => {
+    keys.add(`${path[i]}->${id}`);
+    keys.add(`${id}->${path[i]}`);
+  });
+  return keys;
+};
+
+// Snapshot diffs (WikiLink.diff): changed links stay clearly visible whatever their weight
+const DIFF_COLORS = { added: "#16a34a", removed: "#dc2626" };
+const DIFF_MIN_OPACITY = 0.8;
+
+const linkKey = (d: WikiLink) => `${(d.source as WikiNode).id}->${(d.target as WikiNode).id}`;
+
+// A pinned node keeps its position: fx/fy stay set after the drag (see dragended)
+const isPinned = (d: WikiNode) => d.fx != null && d.fy != null;
+
+// Sub-nodes that cannot be expanded (offline, not cached) are greyed out
+const nodeFill = (d: WikiNode, unavailable?: Set<string>) => d.group === 'main' ? "#000" : (unavailable?.has(d.id) ? "#d6d3d1" : "#fff");
+
 export const NetworkGraph: React.FC<NetworkGraphProps> = ({ 
   data, 
   width, 
@@ -29,26 +79,52 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
   searchTerm,
   showSubNodes = true,
   resetViewTrigger = 0,
-  onInteraction
+  onInteraction,
+  onNodeContextMenu,
+  unavailableNodeIds,
+  onVisibleNodesChange,
+  onViewChange,
+  viewTransform,
+  frozen = false,
+  onPinChange,
+  pinVersion = 0
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
   const currentTransformRef = useRef<d3.ZoomTransform | null>(null);
   const isInitializedRef = useRef(false);
+  const simulationRef = useRef<d3.Simulation<WikiNode, WikiLink> | null>(null);
   
   // Refs to track latest state inside D3 closures
   const hoveredNodeIdRef = useRef(hoveredNodeId);
   const searchTermRef = useRef(searchTerm);
+  const unavailableNodeIdsRef = useRef(unavailableNodeIds);
+  const pathIdsRef = useRef<Set<string>>(new Set());
+  const pathLinkKeysRef = useRef<Set<string>>(new Set());
+  const frozenRef = useRef(frozen);
 
   useEffect(() => {
     hoveredNodeIdRef.current = hoveredNodeId;
   }, [hoveredNodeId]);
 
+  useEffect(() => {
+    unavailableNodeIdsRef.current = unavailableNodeIds;
+  }, [unavailableNodeIds]);
+
   useEffect(() => {
     searchTermRef.current = searchTerm;
   }, [searchTerm]);
+
+  // --- Freeze Effect ---
+  useEffect(() => {
+    frozenRef.current = frozen;
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    if (frozen) simulation.stop();
+    else simulation.alpha(0.3).restart();
+  }, [frozen]);
   
-  const [tooltipState, setTooltipState] = useState<{ x: number; y: number; content: string; visible: boolean }>({
+  const [tooltipState, setTooltipState] = useState<{ x: number; y: number; content: string; node?: WikiNode; visible: boolean }>({
     x: 0,
     y: 0,
     content: '',
@@ -59,8 +135,14 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
   useEffect(() => {
     if (!svgRef.current || data.nodes.length === 0) return;
 
-    // Filter nodes based on visibility setting (Main only vs All)
-    const visibleNodes = showSubNodes ? data.nodes : data.nodes.filter(n => n.group === 'main');
+    pathIdsRef.current = new Set(data.path || []);
+    pathLinkKeysRef.current = pathLinkKeys(data.path);
+
+    // Filter nodes based on visibility setting (Main only vs All); a found path always stays visible.
+    // Sub-nodes of collapsed main nodes are left out but keep their positions for when they return.
+    const collapsedIds = new Set(Array.from(collapsedSubNodes(data).values()).flat());
+    const visibleNodes = (showSubNodes ? data.nodes : data.nodes.filter(n => n.group === 'main' || pathIdsRef.current.has(n.id)))
+      .filter(n => !collapsedIds.has(n.id));
     const visibleNodeIds = new Set(visibleNodes.map(n => n.id));
     
     // Filter links to ensure both endpoints are visible
@@ -72,6 +154,20 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
 
     const svg = d3.select(svgRef.current);
     svg.selectAll("*").remove(); // Clear previous render for clean slate update
+
+    // Arrowhead for backlink edges, offset so the tip stops at the edge of the (main) target node
+    svg.append("defs").append("marker")
+      .attr("id", "backlink-arrow")
+      .attr("markerUnits", "userSpaceOnUse")
+      .attr("markerWidth", 8)
+      .attr("markerHeight", 8)
+      .attr("refX", 21)
+      .attr("refY", 4)
+      .attr("orient", "auto")
+      .append("path")
+      .attr("d", "M0,0 L8,4 L0,8 Z")
+      .attr("fill", "#000");
+
     const g = svg.append("g");
 
     // Clear focus on background click
@@ -101,19 +197,19 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
         // Semantic Zoom: Adjust label visibility/size based on zoom level
         const k = event.transform.k;
         
-        const isHighlighted = (id: string) => {
-             if (id === hoveredNodeIdRef.current) return true;
+        const isHighlighted = (d: WikiNode) => {
+             if (d.id === hoveredNodeIdRef.current) return true;
              const term = searchTermRef.current;
-             if (term && id.toLowerCase().includes(term.toLowerCase())) return true;
+             if (term && d.title.toLowerCase().includes(term.toLowerCase())) return true;
              return false;
         };
 
         g.selectAll('.node-label')
           .attr('opacity', (d: any) => {
-            if (d.group === 'main') return 1; 
+            if (d.group === 'main' || pathIdsRef.current.has(d.id)) return 1; 
             if (k <= 1.2) return 0; // Hide sub-node labels when zoomed out
             // Show at 50% opacity normally, 100% if hovered/highlighted
-            return isHighlighted(d.id) ? 1 : 0.5;
+            return isHighlighted(d) ? 1 : 0.5;
           })
           .attr('font-size', (d: any) => {
             const size = d.group === 'main' ? 12 : 10;
@@ -125,6 +221,24 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
           });
       });
     
+    // Report the nodes inside the viewport once panning/zooming/layout has settled
+    let reportTimeout: ReturnType<typeof setTimeout> | undefined;
+    const reportVisibleNodes = () => {
+      if (!onVisibleNodesChange && !onViewChange) return;
+      clearTimeout(reportTimeout);
+      reportTimeout = setTimeout(() => {
+        const t = currentTransformRef.current || d3.zoomIdentity;
+        onViewChange?.({ x: t.x, y: t.y, k: t.k });
+        if (!onVisibleNodesChange) return;
+        const [x0, y0] = t.invert([0, 0]);
+        const [x1, y1] = t.invert([width, height]);
+        onVisibleNodesChange(visibleNodes
+          .filter(n => n.x !== undefined && n.y !== undefined && n.x >= x0 && n.x <= x1 && n.y >= y0 && n.y <= y1)
+          .map(n => n.id));
+      }, 400);
+    };
+    zoom.on("end", reportVisibleNodes);
+
     zoomRef.current = zoom;
     svg.call(zoom);
     
@@ -139,6 +253,8 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
 
     isInitializedRef.current = true;
 
+    const weightScale = createWeightScale(visibleLinks);
+
     // --- Force Simulation Configuration ---
     const simulation = d3.forceSimulation<WikiNode>(visibleNodes)
       .force("link", d3.forceLink<WikiNode, WikiLink>(visibleLinks)
@@ -146,11 +262,10 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
         .distance((d: WikiLink) => {
            const source = d.source as WikiNode;
            const target = d.target as WikiNode;
-           // Main-to-Main connections are longer to separate clusters
-           if (source.group === 'main' && target.group === 'main') {
-             return 350; 
-           }
-           return 120; // Main-to-Sub connections are tighter
+           // Main-to-Main connections are longer to separate clusters, Main-to-Sub connections are tighter.
+           // Strong links pull their ends up to 40% closer.
+           const base = (source.group === 'main' && target.group === 'main') ? 350 : 120;
+           return base * (1 - 0.4 * weightScale(d.value));
         })
       )
       .force("charge", d3.forceManyBody<WikiNode>()
@@ -159,6 +274,7 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
       .force("collide", d3.forceCollide<WikiNode>().radius((d: WikiNode) => d.group === 'main' ? 50 : 18)) // Prevent overlap
       .force("x", d3.forceX(0).strength(0.01)) // Gentle gravity to center
       .force("y", d3.forceY(0).strength(0.01));
+    simulationRef.current = simulation;
 
     const isMainConnection = (d: WikiLink) => {
       const s = d.source as WikiNode;
@@ -166,6 +282,13 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
       return s.group === 'main' && t.group === 'main';
     };
 
+    const isPathLink = (d: WikiLink) => pathLinkKeysRef.current.has(linkKey(d));
+
+    const restingLinkOpacity = (d: WikiLink) => {
+      const opacity = linkOpacity(isMainConnection(d), weightScale(d.value));
+      return d.diff ? Math.max(DIFF_MIN_OPACITY, opacity) : opacity;
+    };
+
     // --- Drawing Links ---
     const link = g.append("g")
       .attr("class", "links")
@@ -177,9 +300,13 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
         const t = typeof d.target === 'object' ? (d.target as WikiNode).id : d.target as string;
         return `link-${s}-${t}`; 
       })
-      .attr("stroke", "#000")
-      .attr("stroke-opacity", (d: WikiLink) => isMainConnection(d) ? 0.6 : 0.1) 
-      .attr("stroke-width", (d: WikiLink) => isMainConnection(d) ? 2 : 0.5);
+      .attr("stroke", (d: WikiLink) => isPathLink(d) ? PATH_COLOR : d.diff ? DIFF_COLORS[d.diff] : "#000")
+      // Interlanguage links are dashed; backlinks are dotted and carry an arrow towards the page they link to;
+      // removed links (snapshot diff) are dashed too, they no longer exist
+      .attr("stroke-dasharray", (d: WikiLink) => d.kind === 'langlink' || d.diff === 'removed' ? "6 4" : d.kind === 'backlink' ? "2 3" : null)
+      .attr("marker-end", (d: WikiLink) => d.kind === 'backlink' ? "url(#backlink-arrow)" : null)
+      .attr("stroke-opacity", (d: WikiLink) => isPathLink(d) ? 1 : restingLinkOpacity(d)) 
+      .attr("stroke-width", (d: WikiLink) => isPathLink(d) ? PATH_LINK_WIDTH : linkWidth(isMainConnection(d), weightScale(d.value)));
 
     // --- Drawing Nodes ---
     const nodeGroup = g.append("g")
@@ -209,9 +336,32 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
     nodeGroup.append("circle")
       .attr("class", "node-core")
       .attr("r", (d: WikiNode) => d.group === 'main' ? 12 : 5)
-      .attr("fill", (d: WikiNode) => d.group === 'main' ? "#000" : "#fff") 
+      .attr("fill", (d: WikiNode) => nodeFill(d, unavailableNodeIdsRef.current))
+      .attr("stroke", (d: WikiNode) => pathIdsRef.current.has(d.id) ? PATH_COLOR : "#000")
+      .attr("stroke-width", (d: WikiNode) => pathIdsRef.current.has(d.id) ? 3 : (d.group === 'main' ? 0 : 1.5))
+      .attr("stroke-dasharray", (d: WikiNode) => unavailableNodeIdsRef.current?.has(d.id) ? "2 2" : null);
+
+    // Collapsed main nodes get a dashed outline: their sub-nodes are hidden, not gone
+    nodeGroup.filter((d: WikiNode) => d.group === 'main' && !!d.collapsed)
+      .append("circle")
+      .attr("class", "node-collapsed")
+      .attr("r", 16)
+      .attr("fill", "none")
       .attr("stroke", "#000")
-      .attr("stroke-width", (d: WikiNode) => d.group === 'main' ? 0 : 1.5);
+      .attr("stroke-width", 1.5)
+      .attr("stroke-dasharray", "3 3");
+
+    // Pin marker, top right of the node; shown while the node is pinned
+    nodeGroup.append("circle")
+      .attr("class", "node-pin")
+      .attr("cx", (d: WikiNode) => d.group === 'main' ? 11 : 6)
+      .attr("cy", (d: WikiNode) => d.group === 'main' ? -11 : -6)
+      .attr("r", 3.5)
+      .attr("fill", "#000")
+      .attr("stroke", "#fafaf9")
+      .attr("stroke-width", 1.5)
+      .attr("pointer-events", "none")
+      .attr("display", (d: WikiNode) => isPinned(d) ? null : "none");
 
     const initialK = currentTransformRef.current ? currentTransformRef.current.k : 0.5;
 
@@ -222,7 +372,8 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
       .data(visibleNodes)
       .enter().append("text")
       .attr("class", "node-label")
-      .text((d: WikiNode) => d.id)
+      .attr("data-group", (d: WikiNode) => d.group) // Lets the image export tell sub-node labels apart
+      .text((d: WikiNode) => d.title)
       .attr("text-anchor", "middle")
       .attr("font-family", "JetBrains Mono, monospace")
       .attr("font-weight", (d: WikiNode) => d.group === 'main' ? "bold" : "normal")
@@ -233,7 +384,7 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
         return `${size / initialK}px`;
       })
       .attr("dy", (d: WikiNode) => d.group === 'main' ? 14 + (10 / initialK) : 7 + (8 / initialK))
-      .attr("opacity", (d: WikiNode) => d.group === 'main' ? 1 : (initialK > 1.2 ? 0.5 : 0));
+      .attr("opacity", (d: WikiNode) => d.group === 'main' || pathIdsRef.current.has(d.id) ? 1 : (initialK > 1.2 ? 0.5 : 0));
 
     // --- Event Listeners ---
     nodeGroup
@@ -241,7 +392,8 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
         setTooltipState({
             x: event.clientX,
             y: event.clientY,
-            content: d.id,
+            content: d.title,
+            node: d,
             visible: true
         });
         if (onNodeHover) onNodeHover(d.id);
@@ -250,6 +402,12 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
          setTooltipState(prev => ({ ...prev, visible: false }));
          if (onNodeHover) onNodeHover(null);
       })
+      .on("contextmenu", (event, d: WikiNode) => {
+          if (!onNodeContextMenu) return;
+          event.preventDefault();
+          setTooltipState(prev => ({ ...prev, visible: false }));
+          onNodeContextMenu(d, event.clientX, event.clientY);
+      })
       .on("click", (event, d: WikiNode) => {
           event.stopPropagation();
           
@@ -265,7 +423,8 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
                  setTooltipState({
                     x: event.clientX,
                     y: event.clientY,
-                    content: d.id,
+                    content: d.title,
+                    node: d,
                     visible: true
                 });
                 return; // Stop here, do not trigger onNodeClick (expand)
@@ -275,8 +434,11 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
           onNodeClick(d);
       });
 
+    simulation.on("end", reportVisibleNodes);
+    reportVisibleNodes();
+
     // --- Simulation Tick (Animation Loop) ---
-    simulation.on("tick", () => {
+    const render = () => {
       link
         .attr("x1", (d: WikiLink) => (d.source as WikiNode).x!)
         .attr("y1", (d: WikiLink) => (d.source as WikiNode).y!)
@@ -285,35 +447,83 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
 
       nodeGroup.attr("transform", (d: WikiNode) => `translate(${d.x!},${d.y!})`);
       label.attr("x", (d: WikiNode) => d.x!).attr("y", (d: WikiNode) => d.y!);
-    });
+    };
+    simulation.on("tick", render);
+
+    // A frozen layout is drawn once, where the nodes are (new nodes where they were placed)
+    if (frozenRef.current) {
+      simulation.stop();
+      render();
+    }
 
     // --- Drag Handlers ---
+    // Pinned nodes stay pinned wherever they are dropped; Shift-dragging pins any node
+    let pinnedBeforeDrag = false;
+    let moved = false;
+
     function dragstarted(event: d3.D3DragEvent<SVGGElement, WikiNode, WikiNode>, d: WikiNode) {
-      if (!event.active) simulation.alphaTarget(0.3).restart();
+      if (!event.active && !frozenRef.current) simulation.alphaTarget(0.3).restart();
+      pinnedBeforeDrag = isPinned(d);
+      moved = false;
       d.fx = d.x;
       d.fy = d.y;
     }
 
     function dragged(event: d3.D3DragEvent<SVGGElement, WikiNode, WikiNode>, d: WikiNode) {
+      moved = true;
       d.fx = event.x;
       d.fy = event.y;
+      // Without ticks nothing else moves the node
+      if (frozenRef.current) {
+        d.x = event.x;
+        d.y = event.y;
+        render();
+      }
     }
 
     function dragended(event: d3.D3DragEvent<SVGGElement, WikiNode, WikiNode>, d: WikiNode) {
-      if (!event.active) simulation.alphaTarget(0);
-      d.fx = null;
-      d.fy = null;
+      if (!event.active && !frozenRef.current) simulation.alphaTarget(0);
+      const pinned = pinnedBeforeDrag || (moved && !!(event.sourceEvent as MouseEvent | undefined)?.shiftKey);
+      if (!pinned) {
+        d.fx = null;
+        d.fy = null;
+      }
+      if (pinned !== pinnedBeforeDrag) onPinChange?.();
+      // A frozen simulation never ends, so the moved node is reported (and saved) here
+      if (frozenRef.current && moved) reportVisibleNodes();
     }
 
     return () => {
       simulation.stop();
+      simulationRef.current = null;
+      clearTimeout(reportTimeout);
     };
-  }, [data, height, width, onNodeClick, showSubNodes]); 
+  }, [data, height, width, onNodeClick, showSubNodes, onNodeContextMenu, onVisibleNodesChange, onViewChange, onPinChange]); 
+
+  // --- Pin Markers Effect ---
+  // Pins toggled outside the graph (node menu, unpin all); unpinned nodes drift again
+  useEffect(() => {
+    if (!svgRef.current) return;
+    d3.select(svgRef.current).selectAll<SVGCircleElement, WikiNode>(".node-pin")
+      .attr("display", (d: WikiNode) => isPinned(d) ? null : "none");
+    const simulation = simulationRef.current;
+    if (simulation && !frozenRef.current && simulation.alpha() < 0.3) simulation.alpha(0.3).restart();
+  }, [pinVersion]);
+
+  // --- Restored Camera Effect ---
+  useEffect(() => {
+    if (!viewTransform) return;
+    const transform = d3.zoomIdentity.translate(viewTransform.x, viewTransform.y).scale(viewTransform.k);
+    // Also picked up by the next rebuild when the graph is still empty
+    currentTransformRef.current = transform;
+    if (svgRef.current && zoomRef.current) d3.select(svgRef.current).call(zoomRef.current.transform, transform);
+  }, [viewTransform]);
 
   // --- View Reset Effect ---
   useEffect(() => {
     if (resetViewTrigger > 0 && svgRef.current && zoomRef.current) {
-      const visibleNodes = showSubNodes ? data.nodes : data.nodes.filter(n => n.group === 'main');
+      const collapsedIds = new Set(Array.from(collapsedSubNodes(data).values()).flat());
+      const visibleNodes = (showSubNodes ? data.nodes : data.nodes.filter(n => n.group === 'main')).filter(n => !collapsedIds.has(n.id));
       if (visibleNodes.length === 0) return;
       
       // Calculate bounding box of all nodes
@@ -394,6 +604,7 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
     const labels = svg.selectAll<SVGTextElement, WikiNode>(".node-label");
 
     const currentK = currentTransformRef.current ? currentTransformRef.current.k : 0.5;
+    const weightScale = createWeightScale(links.data());
 
     const isMainConnection = (d: WikiLink) => {
         const s = d.source as WikiNode;
@@ -401,47 +612,64 @@ export const NetworkGraph: React.FC<NetworkGraphProps> = ({
         return s?.group === 'main' && t?.group === 'main';
     };
 
-    const isNodeHighlighted = (nodeId: string) => {
-        if (nodeId === hoveredNodeId) return true;
-        if (searchTerm && nodeId.toLowerCase().includes(searchTerm.toLowerCase())) return true;
+    const restingLinkOpacity = (d: WikiLink) => {
+        const opacity = linkOpacity(isMainConnection(d), weightScale(d.value));
+        return d.diff ? Math.max(DIFF_MIN_OPACITY, opacity) : opacity;
+    };
+
+    const isNodeHighlighted = (d: WikiNode) => {
+        if (d.id === hoveredNodeId) return true;
+        if (searchTerm && d.title.toLowerCase().includes(searchTerm.toLowerCase())) return true;
         return false;
     };
 
     // Animate Node Rings
-    nodeRings.transition().duration(200).attr("opacity", (d: WikiNode) => (isNodeHighlighted(d.id) && d.group === 'main') ? 1 : 0);
+    nodeRings.transition().duration(200).attr("opacity", (d: WikiNode) => (isNodeHighlighted(d) && d.group === 'main') ? 1 : 0);
     
     // Scale Node Cores
     nodeCores.transition().duration(200)
-      .attr("r", (d: WikiNode) => isNodeHighlighted(d.id) ? (d.group === 'main' ? 12 : 9) : (d.group === 'main' ? 12 : 5))
-      .attr("stroke-width", (d: WikiNode) => isNodeHighlighted(d.id) ? (d.group === 'main' ? 0 : 3) : (d.group === 'main' ? 0 : 1.5));
+      .attr("r", (d: WikiNode) => isNodeHighlighted(d) ? (d.group === 'main' ? 12 : 9) : (d.group === 'main' ? 12 : 5))
+      .attr("stroke-width", (d: WikiNode) => {
+          if (pathIdsRef.current.has(d.id)) return 3;
+          return isNodeHighlighted(d) ? (d.group === 'main' ? 0 : 3) : (d.group === 'main' ? 0 : 1.5);
+      });
 
     // Highlight Links connected to hovered node
     links.transition().duration(200)
       .attr("stroke-opacity", (d: WikiLink) => {
           const s = d.source as WikiNode;
           const t = d.target as WikiNode;
-          if (s.id === hoveredNodeId || t.id === hoveredNodeId) return 1;
-          return isMainConnection(d) ? 0.6 : 0.1;
+          if (s.id === hoveredNodeId || t.id === hoveredNodeId || pathLinkKeysRef.current.has(linkKey(d))) return 1;
+          return restingLinkOpacity(d);
       })
       .attr("stroke-width", (d: WikiLink) => {
           const s = d.source as WikiNode;
           const t = d.target as WikiNode;
-          if (s.id === hoveredNodeId || t.id === hoveredNodeId) return 3;
-          return isMainConnection(d) ? 2 : 0.5;
+          if (pathLinkKeysRef.current.has(linkKey(d))) return PATH_LINK_WIDTH;
+          if (s.id === hoveredNodeId || t.id === hoveredNodeId) return Math.max(3, linkWidth(isMainConnection(d), weightScale(d.value)));
+          return linkWidth(isMainConnection(d), weightScale(d.value));
       });
 
     // Animate Labels (Opacity change on hover for sub-nodes)
     labels.transition().duration(200)
       .attr("opacity", (d: WikiNode) => {
-          if (d.group === 'main') return 1;
+          if (d.group === 'main' || pathIdsRef.current.has(d.id)) return 1;
           if (currentK <= 1.2) return 0;
-          return isNodeHighlighted(d.id) ? 1 : 0.5;
+          return isNodeHighlighted(d) ? 1 : 0.5;
       });
   }, [hoveredNodeId, searchTerm]);
 
+  // --- Offline availability marker (Without D3 re-render) ---
+  useEffect(() => {
+    if (!svgRef.current) return;
+    d3.select(svgRef.current).selectAll<SVGCircleElement, WikiNode>(".node-core")
+      .attr("stroke-dasharray", (d: WikiNode) => unavailableNodeIds?.has(d.id) ? "2 2" : null)
+      .attr("fill", (d: WikiNode) => nodeFill(d, unavailableNodeIds));
+  }, [unavailableNodeIds]);
+
   return (
     <>
-      <svg ref={svgRef} width={width} height={height} className="block bg-stone-50" />
+      <svg ref={svgRef} width={width} height={height} className="block bg-stone-50" data-graph-canvas />
       <Tooltip {...tooltipState} />
     </>
   );
@@ -0,0 +1,84 @@
+import React, { useEffect } from 'react';
+import { ArrowUpRight, ArrowDownLeft, ArrowsLeftRight, ArrowsInSimple, ArrowsOutSimple, PushPin, PushPinSlash } from '@phosphor-icons/react';
+import { WikiNode, ExpansionMode } from '../types';
+
+interface NodeContextMenuProps {
+  node: WikiNode | null;
+  x: number;
+  y: number;
+  isLoading: boolean;
+  onExpand: (nodeId: string, mode: ExpansionMode) => void;
+  onToggleCollapse: (nodeId: string) => void; // Main nodes only
+  onTogglePin: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+const EXPANSION_OPTIONS: Array<{ mode: ExpansionMode; label: string; Icon: typeof ArrowUpRight }> = [
+  { mode: 'out', label: 'Expand Outgoing', Icon: ArrowUpRight },
+  { mode: 'in', label: 'Expand Incoming', Icon: ArrowDownLeft },
+  { mode: 'both', label: 'Expand Both', Icon: ArrowsLeftRight },
+];
+
+export const NodeContextMenu: React.FC<NodeContextMenuProps> = ({ node, x, y, isLoading, onExpand, onToggleCollapse, onTogglePin, onClose }) => {
+  // Close on Escape or on any click outside the menu
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('click', onClose);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('click', onClose);
+    };
+  }, [onClose]);
+
+  if (!node) return null;
+
+  const isPinned = node.fx != null && node.fy != null;
+
+  // Same edge flipping as the tooltip
+  const isNearRightEdge = typeof window !== 'undefined' && (window.innerWidth - x) < 240;
+
+  return (
+    <div
+      className="fixed z-50 bg-white border-2 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] font-mono text-[10px] uppercase min-w-[180px]"
+      style={{
+        top: y,
+        left: isNearRightEdge ? x - 8 : x + 8,
+        transform: isNearRightEdge ? 'translateX(-100%)' : 'none',
+      }}
+      onClick={(e) => e.stopPropagation()}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <div className="px-3 py-2 border-b border-black font-bold truncate max-w-[240px]">{node.title}</div>
+      {EXPANSION_OPTIONS.map(({ mode, label, Icon }) => (
+        <button
+          key={mode}
+          disabled={isLoading}
+          onClick={() => onExpand(node.id, mode)}
+          className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-black hover:text-white disabled:opacity-40 transition-colors"
+        >
+          <Icon size={12} />
+          <span>{label}</span>
+        </button>
+      ))}
+      {node.group === 'main' && (
+        <button
+          onClick={() => onToggleCollapse(node.id)}
+          className="w-full flex items-center gap-2 px-3 py-2 text-left border-t border-black hover:bg-black hover:text-white transition-colors"
+        >
+          {node.collapsed ? <ArrowsOutSimple size={12} /> : <ArrowsInSimple size={12} />}
+          <span>{node.collapsed ? 'Show Sub-Nodes' : 'Collapse'}</span>
+        </button>
+      )}
+      <button
+        onClick={() => onTogglePin(node.id)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left border-t border-black hover:bg-black hover:text-white transition-colors"
+      >
+        {isPinned ? <PushPinSlash size={12} /> : <PushPin size={12} />}
+        <span>{isPinned ? 'Unpin' : 'Pin In Place'}</span>
+      </button>
+    </div>
+  );
+};
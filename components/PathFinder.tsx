@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Path, ArrowRight, X, CircleNotch } from '@phosphor-icons/react';
+import { WikiNode } from '../types';
+import { PathSearchProgress } from '../services/pathFinder';
+
+interface PathFinderProps {
+  nodes: WikiNode[];
+  path?: string[]; // Node ids of the current path
+  defaultFrom?: string; // Start used while the field is empty, e.g. the focused node
+  isLoading: boolean;
+  progress: PathSearchProgress | null; // Set while a search runs
+  onFindPath: (from: string, to: string, maxDepth: number, maxRequests: number) => void;
+  onClearPath: () => void;
+  onFocusNode: (id: string) => void;
+}
+
+const DEPTH_OPTIONS = [2, 3, 4, 5, 6];
+const BUDGET_OPTIONS = [100, 250, 500, 1000];
+
+/**
+ * "Find path" form plus the steps of the path found last.
+ */
+export const PathFinder: React.FC<PathFinderProps> = ({
+  nodes,
+  path,
+  defaultFrom,
+  isLoading,
+  progress,
+  onFindPath,
+  onClearPath,
+  onFocusNode,
+}) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [maxDepth, setMaxDepth] = useState(4);
+  const [maxRequests, setMaxRequests] = useState(250);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const start = from.trim() || defaultFrom;
+    if (start && to.trim()) onFindPath(start, to.trim(), maxDepth, maxRequests);
+  };
+
+  const steps = (path || []).map(id => nodes.find(n => n.id === id)).filter((n): n is WikiNode => !!n);
+
+  return (
+    <div className="border-b border-black bg-stone-50 shrink-0 font-mono text-[10px] uppercase">
+      <form onSubmit={handleSubmit}>
+        <div className="flex items-center h-[28px] px-3 gap-2">
+          <span className="text-gray-400 w-[32px] shrink-0">From</span>
+          <input
+            type="text"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            placeholder={defaultFrom || 'wiki title'}
+            className="flex-1 min-w-0 bg-transparent outline-none normal-case placeholder:text-gray-400"
+          />
+        </div>
+        <div className="flex items-center h-[28px] px-3 gap-2 border-t border-black">
+          <span className="text-gray-400 w-[32px] shrink-0">To</span>
+          <input
+            type="text"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            placeholder="wiki title"
+            className="flex-1 min-w-0 bg-transparent outline-none normal-case placeholder:text-gray-400"
+          />
+        </div>
+        <div className="flex items-center h-[28px] border-t border-black">
+          <select
+            value={maxDepth}
+            onChange={(e) => setMaxDepth(Number(e.target.value))}
+            className="h-full px-3 bg-transparent outline-none uppercase cursor-pointer border-r border-black"
+            title="longest path to look for, in links"
+          >
+            {DEPTH_OPTIONS.map(d => <option key={d} value={d}>≤ {d} links</option>)}
+          </select>
+          <select
+            value={maxRequests}
+            onChange={(e) => setMaxRequests(Number(e.target.value))}
+            className="h-full px-3 bg-transparent outline-none uppercase cursor-pointer border-r border-black"
+            title="API requests the search may make"
+          >
+            {BUDGET_OPTIONS.map(b => <option key={b} value={b}>{b} requests</option>)}
+          </select>
+          <button
+            type="submit"
+            disabled={isLoading || !(from.trim() || defaultFrom) || !to.trim()}
+            className="ml-auto h-full aspect-square bg-black text-white flex items-center justify-center disabled:opacity-60"
+            title="find shortest path"
+          >
+            {progress ? <CircleNotch size={12} className="animate-spin" /> : <ArrowRight size={12} />}
+          </button>
+        </div>
+      </form>
+
+      {progress && (
+        <div className="px-3 py-1 border-t border-black text-gray-500">
+          Searching: {progress.requests} requests, {progress.depth} links deep
+        </div>
+      )}
+
+      {steps.length > 0 && (
+        <div className="border-t border-black">
+          <div className="flex items-center h-[28px] px-3 gap-2">
+            <Path size={12} className="shrink-0" />
+            <span>{steps.length - 1} {steps.length === 2 ? 'link' : 'links'}</span>
+            <button onClick={onClearPath} className="ml-auto hover:text-red-600" title="clear path">
+              <X size={12} />
+            </button>
+          </div>
+          <ol className="border-t border-black">
+            {steps.map((node, i) => (
+              <li key={node.id}>
+                <button
+                  onClick={() => onFocusNode(node.id)}
+                  className="w-full flex items-center gap-2 px-3 h-[22px] text-left hover:bg-stone-200"
+                >
+                  <span className="text-gray-400">{String(i + 1).padStart(2, '0')}</span>
+                  <span className="truncate normal-case">{node.title}</span>
+                  {i < steps.length - 1 && <span className="ml-auto text-gray-400">↓</span>}
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useSyncExternalStore } from 'react';
+import { CircleNotch, Hourglass, ArrowClockwise, X } from '@phosphor-icons/react';
+import { requestScheduler, ScheduledRequest } from '../services/requestScheduler';
+
+interface RequestQueueProps {
+  onCancelAll: () => void; // Cancels the pending operations, not just their current requests
+}
+
+const STATE_ICON: Record<ScheduledRequest['state'], React.ReactNode> = {
+  running: <CircleNotch size={10} className="animate-spin" />,
+  queued: <Hourglass size={10} />,
+  waiting: <ArrowClockwise size={10} />,
+};
+
+/**
+ * Live list of queued, in-flight and retrying API requests. Renders nothing when idle.
+ */
+export const RequestQueue: React.FC<RequestQueueProps> = ({ onCancelAll }) => {
+  const requests = useSyncExternalStore(requestScheduler.subscribe, requestScheduler.getRequests);
+  if (requests.length === 0) return null;
+
+  const running = requests.filter(r => r.state !== 'queued').length;
+  const queued = requests.length - running;
+
+  return (
+    <div className="border-b border-black bg-stone-50 shrink-0 font-mono text-[10px] uppercase">
+      <div className="flex items-center h-[28px] px-3 gap-2">
+        <CircleNotch size={12} className="animate-spin shrink-0" />
+        <span>{running} in flight / {queued} queued</span>
+        <button onClick={onCancelAll} className="ml-auto hover:underline hover:text-red-600">Cancel All</button>
+      </div>
+      <div className="max-h-[110px] overflow-y-auto border-t border-black">
+        {requests.map(r => (
+          <div key={r.id} className="flex items-center gap-2 px-3 h-[22px] border-b border-stone-200 last:border-b-0 group">
+            <span className="shrink-0">{STATE_ICON[r.state]}</span>
+            <span className="truncate normal-case flex-1" title={r.label}>{r.label}</span>
+            {r.state === 'waiting' && r.retryAt !== undefined && (
+              <span className="shrink-0 text-red-600" title="backing off after a rate limit or server error">
+                RETRY {r.attempt} IN {Math.max(0, Math.ceil((r.retryAt - Date.now()) / 1000))}S
+              </span>
+            )}
+            <button onClick={() => requestScheduler.cancel(r.id)} className="shrink-0 opacity-0 group-hover:opacity-100 hover:text-red-600" title="cancel request">
+              <X size={10} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
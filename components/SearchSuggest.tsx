@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { SearchSuggestion } from '../types';
+import { isAbortError } from '../services/requestScheduler';
+
+interface SearchSuggestProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (title: string) => void; // A suggestion was picked (click or Enter on a highlighted one)
+  onPasteList?: (text: string) => void; // A multi-line paste, which a single-line input would flatten
+  fetchSuggestions?: (query: string, signal: AbortSignal) => Promise<SearchSuggestion[]>; // Absent: plain input
+  placement?: 'below' | 'above'; // Side the dropdown opens on
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string; // Classes of the input element
+}
+
+// Wait for a pause in typing before asking the wiki
+const SUGGEST_DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Search input with a debounced suggestion dropdown. Arrow keys move through the
+ * suggestions, Enter picks the highlighted one (otherwise the surrounding form submits
+ * as usual) and Escape closes the list.
+ * The dropdown spans the nearest positioned ancestor, so wrap it in a `relative` container.
+ */
+export const SearchSuggest: React.FC<SearchSuggestProps> = ({
+  value,
+  onChange,
+  onSelect,
+  onPasteList,
+  fetchSuggestions,
+  placement = 'below',
+  placeholder,
+  disabled,
+  className,
+}) => {
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [highlighted, setHighlighted] = useState(-1);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const query = value.trim();
+    if (!fetchSuggestions || query.length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+
+    // Typing on cancels the pending lookup, so stale results never replace newer ones
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      fetchSuggestions(query, controller.signal)
+        .then(results => {
+          setSuggestions(results);
+          setHighlighted(-1);
+        })
+        .catch(err => {
+          if (!isAbortError(err)) console.warn('Could not load suggestions:', err);
+        });
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [value, fetchSuggestions]);
+
+  const pick = (suggestion: SearchSuggestion) => {
+    setOpen(false);
+    setSuggestions([]);
+    onSelect(suggestion.title);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || suggestions.length === 0) {
+      if (e.key === 'ArrowDown' && suggestions.length > 0) setOpen(true);
+      return;
+    }
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(h => (h + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(h => (h <= 0 ? suggestions.length : h) - 1);
+    } else if (e.key === 'Enter' && highlighted >= 0) {
+      e.preventDefault();
+      pick(suggestions[highlighted]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData('text');
+    if (!onPasteList || text.trim().split(/\r?\n/).filter(l => l.trim()).length < 2) return;
+    e.preventDefault();
+    setOpen(false);
+    onPasteList(text);
+  };
+
+  const showList = open && suggestions.length > 0 && !disabled;
+
+  return (
+    <>
+      <input
+        type="text"
+        role="combobox"
+        aria-expanded={showList}
+        aria-autocomplete="list"
+        placeholder={placeholder}
+        className={className}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onPaste={handlePaste}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+      />
+      {showList && (
+        <ul
+          role="listbox"
+          className={`absolute left-0 right-0 z-40 bg-white border border-black font-mono text-[10px] ${placement === 'below' ? 'top-full -mt-px' : 'bottom-full -mb-px'}`}
+        >
+          {suggestions.map((s, i) => (
+            <li
+              key={s.title}
+              role="option"
+              aria-selected={i === highlighted}
+              // Keep focus in the input so the blur does not close the list before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(s)}
+              onMouseEnter={() => setHighlighted(i)}
+              className={`px-3 py-1 cursor-pointer border-b border-black last:border-b-0 ${i === highlighted ? 'bg-black text-white' : ''}`}
+            >
+              <div className="text-xs truncate">{s.title}</div>
+              {s.description && (
+                <div className={`uppercase truncate leading-tight ${i === highlighted ? 'text-stone-300' : 'text-gray-500'}`}>{s.description}</div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { ArrowRight } from '@phosphor-icons/react';
+
+export type SeedSetKind = 'category' | 'list';
+
+interface SeedSetPanelProps {
+  supportsCategories: boolean; // Category listings need the live API
+  isLoading: boolean;
+  onSeed: (kind: SeedSetKind, title: string, depth: number, limit: number) => void;
+}
+
+const DEPTH_OPTIONS = [0, 1, 2, 3];
+const LIMIT_OPTIONS = [10, 25, 50, 100, 200];
+
+/**
+ * Seeds many articles at once: the members of a category (optionally with its
+ * subcategories) or the articles a "List of ..." page links to.
+ */
+export const SeedSetPanel: React.FC<SeedSetPanelProps> = ({ supportsCategories, isLoading, onSeed }) => {
+  const [kind, setKind] = useState<SeedSetKind>(supportsCategories ? 'category' : 'list');
+  const [title, setTitle] = useState('');
+  const [depth, setDepth] = useState(0);
+  const [limit, setLimit] = useState(25);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (title.trim()) onSeed(kind, title.trim(), depth, limit);
+  };
+
+  const selectClass = "h-full px-2 bg-transparent outline-none uppercase cursor-pointer border-r border-black disabled:cursor-not-allowed disabled:opacity-40";
+
+  return (
+    <form onSubmit={handleSubmit} className="border-b border-black bg-stone-50 shrink-0 font-mono text-[10px] uppercase">
+      <div className="flex items-center h-[28px]">
+        <select value={kind} onChange={(e) => setKind(e.target.value as SeedSetKind)} className={selectClass} title="where the members come from">
+          <option value="category" disabled={!supportsCategories}>Category</option>
+          <option value="list">List page</option>
+        </select>
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder={kind === 'category' ? 'Category:Physics' : 'List of physicists'}
+          className="flex-1 min-w-0 px-3 bg-transparent outline-none normal-case placeholder:text-gray-400"
+        />
+      </div>
+      <div className="flex items-center h-[28px] border-t border-black">
+        <select
+          value={depth}
+          disabled={kind !== 'category'}
+          onChange={(e) => setDepth(Number(e.target.value))}
+          className={selectClass}
+          title="subcategory levels to include"
+        >
+          {DEPTH_OPTIONS.map(d => <option key={d} value={d}>{d === 0 ? 'No subcats' : `${d} sublvl`}</option>)}
+        </select>
+        <select value={limit} onChange={(e) => setLimit(Number(e.target.value))} className={selectClass} title="most members to add">
+          {LIMIT_OPTIONS.map(l => <option key={l} value={l}>≤ {l} members</option>)}
+        </select>
+        <button
+          type="submit"
+          disabled={isLoading || !title.trim()}
+          className="ml-auto h-full aspect-square bg-black text-white flex items-center justify-center disabled:opacity-60"
+          title="add every member as a main node"
+        >
+          <ArrowRight size={12} />
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -10,14 +10,43 @@ import {
   ArrowCounterClockwise,
   ToggleLeft,
   ToggleRight,
-  Trash
+  Trash,
+  Graph,
+  Path,
+  TreeStructure,
+  ClockCounterClockwise,
+  ListBullets,
+  ArrowUUpLeft,
+  ArrowUUpRight,
+  ArrowsInSimple,
+  ArrowsOutSimple,
+  Snowflake,
+  PushPinSlash
 } from '@phosphor-icons/react';
-import { WikiNode, WikiLink } from '../types';
+import { GraphData, WikiNode, WikiLink, WikiDataSource, ExpansionMode, CacheEntry, SearchSuggestion } from '../types';
+import { GraphOperation } from '../services/graphStore';
 import { KnobControl } from './KnobControl';
 import { Logo } from './Logo';
+import { SourcePicker } from './SourcePicker';
+import { CachePanel } from './CachePanel';
+import { RequestQueue } from './RequestQueue';
+import { PathFinder } from './PathFinder';
+import { CrawlPanel, CrawlProgress } from './CrawlPanel';
+import { SnapshotPanel, SnapshotDiffSummary } from './SnapshotPanel';
+import { SearchSuggest } from './SearchSuggest';
+import { DisambiguationChooser } from './DisambiguationChooser';
+import { SeedSetPanel, SeedSetKind } from './SeedSetPanel';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
+import { ExportPanel } from './ExportPanel';
+import { ImportPanel } from './ImportPanel';
+import { WorkspaceSummary } from '../services/workspaceService';
+import { PathSearchProgress } from '../services/pathFinder';
+import { WIKI_LANGUAGES } from '../services/wikiService';
+import { collapsedSubNodes } from '../services/collapse';
 
 interface SidebarProps {
   onSearchSubmit: (url: string) => void;
+  onFetchSuggestions?: (query: string, signal: AbortSignal) => Promise<SearchSuggestion[]>;
   isLoading: boolean;
   error: string | null;
   nodes: WikiNode[];
@@ -27,18 +56,67 @@ interface SidebarProps {
   onHoverNode: (id: string | null) => void;
   onFocusNode: (id: string | null) => void;
   onDeleteNode: (id: string) => void;
+  onToggleCollapse: (id: string) => void;
   linkLimit: number;
   onLinkLimitChange: (limit: number) => void;
+  lang: string;
+  onLangChange: (lang: string) => void;
+  onExpandInLanguage: (nodeId: string, lang: string) => void;
+  onExpandNode: (nodeId: string, mode: ExpansionMode) => void;
+  dataSource: WikiDataSource;
+  onDataSourceChange: (source: WikiDataSource) => void;
+  cacheEntries: CacheEntry[];
+  cacheTtl: number;
+  onCacheTtlChange: (ttl: number) => void;
+  offline: boolean;
+  onOfflineChange: (offline: boolean) => void;
+  onDeleteCacheEntry: (key: string) => void;
+  onClearCache: () => void;
+  onCancelRequests: () => void;
+  onDensify: () => void;
+  path?: string[];
+  pathProgress: PathSearchProgress | null;
+  onFindPath: (from: string, to: string, maxDepth: number, maxRequests: number) => void;
+  onClearPath: () => void;
+  crawlProgress: CrawlProgress | null;
+  onCrawl: (seed: string, maxDepth: number, fanOut: number, nodeBudget: number) => void;
+  onStopCrawl: () => void;
+  onSeedSet: (kind: SeedSetKind, title: string, depth: number, limit: number) => void;
+  snapshotDate: string | null;
+  onSnapshotDateChange: (date: string | null) => void;
+  snapshotDiff: SnapshotDiffSummary | null;
+  onSnapshotDiff: (seed: string, from: string, to: string) => void;
+  onCloseSnapshotDiff: () => void;
+  disambiguation: { title: string; meanings: SearchSuggestion[] } | null;
+  onPickMeaning: (title: string) => void;
+  onAddDisambiguationPage: () => void;
+  onDismissDisambiguation: () => void;
   onClearAll: () => void;
+  nextUndo: GraphOperation | null;
+  nextRedo: GraphOperation | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  workspaces: WorkspaceSummary[];
+  activeWorkspaceId: string | null;
+  onSwitchWorkspace: (id: string) => void;
+  onCreateWorkspace: () => void;
+  onRenameWorkspace: (id: string, name: string) => void;
+  onDuplicateWorkspace: (id: string) => void;
+  onDeleteWorkspace: (id: string) => void;
+  onImportGraph: (data: GraphData, mode: 'replace' | 'merge', label: string) => void;
   searchTerm: string;
   onSearchTermChange: (term: string) => void;
   showSubNodes: boolean;
   onToggleSubNodes: () => void;
+  layoutFrozen: boolean;
+  onToggleFreeze: () => void;
+  onUnpinAll: () => void;
   onResetView: () => void;
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({
   onSearchSubmit,
+  onFetchSuggestions,
   isLoading,
   error,
   nodes,
@@ -48,18 +126,74 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onHoverNode,
   onFocusNode,
   onDeleteNode,
+  onToggleCollapse,
   linkLimit,
   onLinkLimitChange,
+  lang,
+  onLangChange,
+  onExpandInLanguage,
+  onExpandNode,
+  dataSource,
+  onDataSourceChange,
+  cacheEntries,
+  cacheTtl,
+  onCacheTtlChange,
+  offline,
+  onOfflineChange,
+  onDeleteCacheEntry,
+  onClearCache,
+  onCancelRequests,
+  onDensify,
+  path,
+  pathProgress,
+  onFindPath,
+  onClearPath,
+  crawlProgress,
+  onCrawl,
+  onStopCrawl,
+  onSeedSet,
+  snapshotDate,
+  onSnapshotDateChange,
+  snapshotDiff,
+  onSnapshotDiff,
+  onCloseSnapshotDiff,
+  disambiguation,
+  onPickMeaning,
+  onAddDisambiguationPage,
+  onDismissDisambiguation,
   onClearAll,
+  nextUndo,
+  nextRedo,
+  onUndo,
+  onRedo,
+  workspaces,
+  activeWorkspaceId,
+  onSwitchWorkspace,
+  onCreateWorkspace,
+  onRenameWorkspace,
+  onDuplicateWorkspace,
+  onDeleteWorkspace,
+  onImportGraph,
   searchTerm,
   onSearchTermChange,
   showSubNodes,
   onToggleSubNodes,
+  layoutFrozen,
+  onToggleFreeze,
+  onUnpinAll,
   onResetView
 }) => {
   const [inputVal, setInputVal] = useState('');
+  const [openTool, setOpenTool] = useState<'path' | 'crawl' | 'seed' | 'history' | null>(null); // Tool panel unfolded below the actions strip
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   
+  const toggleTool = (tool: NonNullable<typeof openTool>) => setOpenTool(openTool === tool ? null : tool);
+
+  // Show the steps as soon as a path is found
+  useEffect(() => {
+    if (path) setOpenTool('path');
+  }, [path]);
+
   // Handle auto-scroll to focused card
   useEffect(() => {
     if (focusedNodeId && scrollContainerRef.current) {
@@ -84,18 +218,27 @@ export const Sidebar: React.FC<SidebarProps> = ({
     }
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-      const val = e.target.value;
+  const handleInputChange = (val: string) => {
       setInputVal(val);
       onSearchTermChange(val); 
   };
 
+  // A picked suggestion or a pasted list goes straight to the search
+  const handleSubmitText = (text: string) => {
+    onSearchSubmit(text);
+    setInputVal('');
+  };
+
   const handleClearInput = () => {
     setInputVal('');
     onSearchTermChange('');
   };
 
   const mainNodes = useMemo(() => nodes.filter(n => n.group === 'main'), [nodes]);
+  // Not memoized: pins are written onto the node objects in place
+  const pinnedCount = nodes.filter(n => n.fx != null && n.fy != null).length;
+  const hiddenSubNodes = useMemo(() => collapsedSubNodes({ nodes, links, path }), [nodes, links, path]);
+  const hoveredSubNode = nodes.find(n => n.id === hoveredNodeId && n.group === 'sub');
 
   const getNodeStats = (nodeId: string) => {
     const connectedSubNodes = new Set<string>();
@@ -125,6 +268,10 @@ export const Sidebar: React.FC<SidebarProps> = ({
     };
   };
 
+  // Exports are named after the open workspace
+  const workspaceName = workspaces.find(w => w.id === activeWorkspaceId)?.name;
+  const exportBasename = workspaceName ? workspaceName.trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'wikicluster' : 'wikicluster';
+
   const sliderValue = linkLimit === Infinity ? 2000 : linkLimit;
   const hasNodes = nodes.length > 0;
 
@@ -135,6 +282,9 @@ export const Sidebar: React.FC<SidebarProps> = ({
   // Specific tool icon settings
   const TOOL_ICON_SIZE = 12;
 
+  // Graph action buttons: icon over label, one grid cell each
+  const ACTION_CLASS = "flex flex-col items-center justify-center gap-[2px] border-r border-black last:border-r-0";
+
   return (
     <aside className="w-full h-full flex flex-col bg-stone-50 border-r border-black z-20 shadow-none font-sans text-black box-border">
       {/* 1. Title Section - 使用新的 Logo 组件 */}
@@ -142,16 +292,28 @@ export const Sidebar: React.FC<SidebarProps> = ({
         <Logo />
       </div>
 
+      <WorkspaceSwitcher
+        workspaces={workspaces}
+        activeId={activeWorkspaceId}
+        onSwitch={onSwitchWorkspace}
+        onCreate={onCreateWorkspace}
+        onRename={onRenameWorkspace}
+        onDuplicate={onDuplicateWorkspace}
+        onDelete={onDeleteWorkspace}
+      />
+
       {/* 2. Search Box Section */}
       <form onSubmit={handleSubmit} className="flex w-full border-b border-black h-[35px] shrink-0 group relative z-30 mb-0">
         <div className="flex-1 flex items-center px-3 bg-stone-50 overflow-hidden">
           <MagnifyingGlass size={ICON_SIZE} weight={ICON_WEIGHT} className="text-black mr-2 shrink-0" />
-          <input 
-            type="text" 
+          <SearchSuggest
             placeholder=": /wiki title"
             className="flex-1 bg-transparent outline-none text-xs font-normal placeholder:text-gray-400 font-mono h-full min-w-0"
             value={inputVal}
             onChange={handleInputChange}
+            onSelect={handleSubmitText}
+            onPasteList={handleSubmitText}
+            fetchSuggestions={onFetchSuggestions}
             disabled={isLoading}
           />
           {inputVal && (
@@ -195,7 +357,20 @@ export const Sidebar: React.FC<SidebarProps> = ({
            </div>
 
            <div className="w-[96px] flex flex-col shrink-0">
-               <div className="flex-1 border-b border-black bg-stone-50"></div>
+               {/* Language Edition Selector */}
+               <div className="flex-1 border-b border-black bg-stone-50 flex items-center px-[6px]">
+                  <select
+                     value={dataSource.supportsLanguages ? lang : dataSource.defaultLang}
+                     disabled={!dataSource.supportsLanguages}
+                     onChange={(e) => onLangChange(e.target.value)}
+                     className="w-full bg-transparent outline-none font-mono text-[10px] uppercase cursor-pointer disabled:cursor-not-allowed disabled:opacity-40"
+                     title="Wikipedia language edition for new searches"
+                  >
+                     {WIKI_LANGUAGES.map(l => (
+                        <option key={l.code} value={l.code}>{l.code.toUpperCase()} · {l.name}</option>
+                     ))}
+                  </select>
+               </div>
                
                {/* Reset View Button */}
                <button 
@@ -242,12 +417,193 @@ export const Sidebar: React.FC<SidebarProps> = ({
            </div>
       </div>
 
+      {/* History: undo/redo of graph changes (also Ctrl+Z / Ctrl+Shift+Z) */}
+      <div className="grid grid-cols-2 border-b border-black h-[28px] shrink-0 font-mono text-[10px] uppercase bg-stone-50">
+        <button
+          onClick={onUndo}
+          disabled={!nextUndo}
+          className="flex items-center gap-2 px-3 min-w-0 border-r border-black hover:bg-stone-200 disabled:opacity-40 disabled:hover:bg-transparent"
+          title={nextUndo ? `undo ${nextUndo.kind}: ${nextUndo.label} (Ctrl+Z)` : 'nothing to undo'}
+        >
+          <ArrowUUpLeft size={12} className="shrink-0" />
+          <span className="truncate">{nextUndo ? `Undo ${nextUndo.kind}` : 'Undo'}</span>
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!nextRedo}
+          className="flex items-center gap-2 px-3 min-w-0 hover:bg-stone-200 disabled:opacity-40 disabled:hover:bg-transparent"
+          title={nextRedo ? `redo ${nextRedo.kind}: ${nextRedo.label} (Ctrl+Shift+Z)` : 'nothing to redo'}
+        >
+          <ArrowUUpRight size={12} className="shrink-0" />
+          <span className="truncate">{nextRedo ? `Redo ${nextRedo.kind}` : 'Redo'}</span>
+        </button>
+      </div>
+
+      {/* Layout: freeze the simulation, release pinned nodes (Shift-drag pins a node) */}
+      <div className="grid grid-cols-2 border-b border-black h-[28px] shrink-0 font-mono text-[10px] uppercase bg-stone-50">
+        <button
+          onClick={onToggleFreeze}
+          className={`flex items-center gap-2 px-3 min-w-0 border-r border-black ${layoutFrozen ? 'bg-black text-white' : 'hover:bg-stone-200'}`}
+          title={layoutFrozen ? 'let the layout move again' : 'freeze the layout: nodes only move when dragged'}
+        >
+          <Snowflake size={12} weight={layoutFrozen ? 'fill' : 'regular'} className="shrink-0" />
+          <span className="truncate">{layoutFrozen ? 'Frozen' : 'Freeze'}</span>
+        </button>
+        <button
+          onClick={onUnpinAll}
+          disabled={pinnedCount === 0}
+          className="flex items-center gap-2 px-3 min-w-0 hover:bg-stone-200 disabled:opacity-40 disabled:hover:bg-transparent"
+          title={pinnedCount > 0 ? `release ${pinnedCount} pinned nodes` : 'no pinned nodes (Shift-drag a node to pin it)'}
+        >
+          <PushPinSlash size={12} className="shrink-0" />
+          <span className="truncate">Unpin all{pinnedCount > 0 ? ` · ${pinnedCount}` : ''}</span>
+        </button>
+      </div>
+
+      {/* Graph Actions */}
+      <div className="grid grid-cols-5 border-b border-black h-[40px] shrink-0 font-mono text-[10px] uppercase bg-stone-50">
+        <button
+          onClick={onDensify}
+          disabled={isLoading || nodes.length < 2}
+          className={`${ACTION_CLASS} hover:bg-stone-200 disabled:opacity-40 disabled:hover:bg-transparent`}
+          title="add the links between nodes already in the graph"
+        >
+          <Graph size={12} />
+          <span>Densify</span>
+        </button>
+        <button
+          onClick={() => toggleTool('path')}
+          className={`${ACTION_CLASS} ${openTool === 'path' ? 'bg-black text-white' : 'hover:bg-stone-200'}`}
+          title="find the shortest chain of links between two articles"
+        >
+          <Path size={12} />
+          <span>Path</span>
+        </button>
+        <button
+          onClick={() => toggleTool('crawl')}
+          className={`${ACTION_CLASS} ${openTool === 'crawl' ? 'bg-black text-white' : 'hover:bg-stone-200'}`}
+          title="auto-expand: crawl breadth-first from a seed"
+        >
+          <TreeStructure size={12} />
+          <span>Crawl</span>
+        </button>
+        <button
+          onClick={() => toggleTool('seed')}
+          className={`${ACTION_CLASS} ${openTool === 'seed' ? 'bg-black text-white' : 'hover:bg-stone-200'}`}
+          title="seed every article of a category or list page"
+        >
+          <ListBullets size={12} />
+          <span>Seed</span>
+        </button>
+        {/* Only sources with page history can go back in time */}
+        {dataSource.fetchLinksAt && (
+          <button
+            onClick={() => toggleTool('history')}
+            className={`${ACTION_CLASS} ${openTool === 'history' ? 'bg-black text-white' : snapshotDate ? 'bg-stone-200' : 'hover:bg-stone-200'}`}
+            title={snapshotDate ? `reading pages as of ${snapshotDate}` : 'read pages as of a past date, or diff two dates'}
+          >
+            <ClockCounterClockwise size={12} weight={snapshotDate ? 'bold' : 'regular'} />
+            <span>History</span>
+          </button>
+        )}
+      </div>
+      {openTool === 'path' && (
+        <PathFinder
+          nodes={nodes}
+          path={path}
+          defaultFrom={nodes.find(n => n.id === focusedNodeId)?.title}
+          isLoading={isLoading}
+          progress={pathProgress}
+          onFindPath={onFindPath}
+          onClearPath={onClearPath}
+          onFocusNode={onFocusNode}
+        />
+      )}
+      {openTool === 'crawl' && (
+        <CrawlPanel
+          defaultSeed={nodes.find(n => n.id === focusedNodeId)?.title}
+          isLoading={isLoading}
+          progress={crawlProgress}
+          onCrawl={onCrawl}
+          onStop={onStopCrawl}
+        />
+      )}
+      {openTool === 'seed' && (
+        <SeedSetPanel
+          supportsCategories={!!dataSource.fetchCategoryMembers}
+          isLoading={isLoading}
+          onSeed={onSeedSet}
+        />
+      )}
+      {openTool === 'history' && dataSource.fetchLinksAt && (
+        <SnapshotPanel
+          date={snapshotDate}
+          onDateChange={onSnapshotDateChange}
+          dateLocked={hasNodes}
+          defaultSeed={nodes.find(n => n.id === focusedNodeId)?.title}
+          isLoading={isLoading}
+          diff={snapshotDiff}
+          onDiff={onSnapshotDiff}
+          onCloseDiff={onCloseSnapshotDiff}
+        />
+      )}
+
+      <ImportPanel lang={lang} hasNodes={hasNodes} onImport={onImportGraph} />
+      <ExportPanel data={{ nodes, links, path }} basename={exportBasename} />
+
+      {/* 4. Data Source */}
+      <SourcePicker source={dataSource} onSourceChange={onDataSourceChange} disabled={hasNodes} />
+      {/* Dumps are already local, so only API sources are cached */}
+      {dataSource.id !== 'dump' && (
+        <CachePanel
+          entries={cacheEntries.filter(e => e.source === dataSource.label || e.source.startsWith(`${dataSource.label}@`))}
+          ttl={cacheTtl}
+          onTtlChange={onCacheTtlChange}
+          offline={offline}
+          onOfflineChange={onOfflineChange}
+          onDeleteEntry={onDeleteCacheEntry}
+          onClearCache={onClearCache}
+        />
+      )}
+      <RequestQueue onCancelAll={onCancelRequests} />
+
       {error && (
           <div className="p-3 bg-red-50 border-b border-black text-[10px] font-mono text-red-600 shrink-0">
               Error: {error}
           </div>
       )}
 
+      {disambiguation && (
+        <DisambiguationChooser
+          title={disambiguation.title}
+          meanings={disambiguation.meanings}
+          isLoading={isLoading}
+          onPick={onPickMeaning}
+          onAddPage={onAddDisambiguationPage}
+          onDismiss={onDismissDisambiguation}
+        />
+      )}
+
+      {/* Preview of the hovered sub-node, to judge it before expanding */}
+      {hoveredSubNode && (
+          <div className="p-3 border-b border-black bg-white shrink-0 flex gap-3">
+              {hoveredSubNode.thumbnail && (
+                <img src={hoveredSubNode.thumbnail} alt="" className="w-12 h-12 object-cover border border-black grayscale shrink-0" />
+              )}
+              <div className="min-w-0">
+                <h4 className="font-bold text-xs uppercase truncate">{hoveredSubNode.title}</h4>
+                {hoveredSubNode.description && (
+                  <p className="font-mono text-[10px] text-gray-500 uppercase leading-tight mt-1">{hoveredSubNode.description}</p>
+                )}
+                {hoveredSubNode.extract ? (
+                  <p className="text-[11px] text-gray-700 leading-snug mt-1 line-clamp-4">{hoveredSubNode.extract}</p>
+                ) : (
+                  <p className="font-mono text-[10px] text-gray-400 uppercase mt-1">Click to expand</p>
+                )}
+              </div>
+          </div>
+      )}
+
       {/* Main Node List */}
       <div 
         ref={scrollContainerRef}
@@ -266,8 +622,9 @@ export const Sidebar: React.FC<SidebarProps> = ({
 
         {mainNodes.map((node, index) => {
           const stats = getNodeStats(node.id);
-          const isHovered = hoveredNodeId === node.id || (searchTerm && node.id.toLowerCase().includes(searchTerm.toLowerCase()));
+          const isHovered = hoveredNodeId === node.id || (searchTerm && node.title.toLowerCase().includes(searchTerm.toLowerCase()));
           const isFocused = focusedNodeId === node.id;
+          const hiddenCount = hiddenSubNodes.get(node.id)?.length || 0;
           
           return (
             <div 
@@ -292,8 +649,19 @@ export const Sidebar: React.FC<SidebarProps> = ({
                     {String(index + 1).padStart(2, '0')}
                     </span>
                     <h3 className="font-bold text-sm leading-none uppercase break-all line-clamp-1">
-                        {node.id}
+                        {node.title}
                     </h3>
+                    <span className="font-mono text-[9px] border border-black px-1 leading-tight uppercase shrink-0">
+                        {node.lang}
+                    </span>
+                    {node.collapsed && (
+                      <span
+                        className="font-mono text-[9px] border border-dashed border-black px-1 leading-tight uppercase shrink-0"
+                        title={`${hiddenCount} sub-nodes hidden`}
+                      >
+                        Collapsed · {hiddenCount}
+                      </span>
+                    )}
                 </div>
                 
                 <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -307,6 +675,16 @@ export const Sidebar: React.FC<SidebarProps> = ({
                    >
                       <CrosshairSimple size={16} weight="regular" />
                    </button>
+                   <button 
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onToggleCollapse(node.id);
+                    }} 
+                    className="p-1.5 hover:bg-black hover:text-white rounded-sm transition-colors"
+                    title={node.collapsed ? 'show hidden sub-nodes' : 'collapse: hide the sub-nodes only this node reaches'}
+                   >
+                      {node.collapsed ? <ArrowsOutSimple size={16} weight="regular" /> : <ArrowsInSimple size={16} weight="regular" />}
+                   </button>
                    <button 
                     onClick={(e) => {
                       e.stopPropagation();
@@ -326,6 +704,16 @@ export const Sidebar: React.FC<SidebarProps> = ({
                     {node.description}
                   </p>
                 )}
+                {(node.extract || node.thumbnail) && (
+                  <div className="flex gap-3 mb-3">
+                    {node.thumbnail && (
+                      <img src={node.thumbnail} alt="" className="w-12 h-12 object-cover border border-black grayscale shrink-0" />
+                    )}
+                    {node.extract && (
+                      <p className="text-[11px] text-gray-700 leading-snug line-clamp-3">{node.extract}</p>
+                    )}
+                  </div>
+                )}
                 
                 <div className="flex items-center gap-4">
                     <div className="flex flex-col">
@@ -336,15 +724,53 @@ export const Sidebar: React.FC<SidebarProps> = ({
                         <span className="text-[9px] text-gray-400 uppercase tracking-wider">Connects</span>
                         <span className="font-mono text-xs">{stats.mainConnectionCount}</span>
                     </div>
-                    <a 
-                        href={node.url} 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="ml-auto text-[10px] uppercase font-bold border-b border-black pb-0.5 hover:text-blue-600 hover:border-blue-600 transition-colors"
-                        onClick={(e) => e.stopPropagation()}
-                    >
-                        Wiki Link
-                    </a>
+                    <div className="ml-auto flex items-center gap-3">
+                      {/* Grow this node outwards, inwards ("what links here") or both */}
+                      <select
+                          value=""
+                          disabled={isLoading}
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={(e) => {
+                            if (e.target.value) onExpandNode(node.id, e.target.value as ExpansionMode);
+                          }}
+                          className="bg-transparent outline-none text-[10px] uppercase font-bold cursor-pointer w-[64px]"
+                          title="expand outgoing / incoming links"
+                      >
+                          <option value="">+ LINKS</option>
+                          <option value="out">Outgoing</option>
+                          <option value="in">Incoming</option>
+                          <option value="both">Both</option>
+                      </select>
+                      {/* Expand the same concept in another language edition via its interlanguage link */}
+                      {dataSource.supportsLanguages && (
+                        <select
+                            value=""
+                            disabled={isLoading}
+                            onClick={(e) => e.stopPropagation()}
+                            onChange={(e) => {
+                              if (e.target.value) onExpandInLanguage(node.id, e.target.value);
+                            }}
+                            className="bg-transparent outline-none text-[10px] uppercase font-bold cursor-pointer w-[52px]"
+                            title="expand in another language"
+                        >
+                            <option value="">+ LANG</option>
+                            {WIKI_LANGUAGES.filter(l => l.code !== node.lang).map(l => (
+                              <option key={l.code} value={l.code}>{l.code.toUpperCase()} · {l.name}</option>
+                            ))}
+                        </select>
+                      )}
+                      {node.url && (
+                        <a 
+                            href={node.url} 
+                            target="_blank" 
+                            rel="noopener noreferrer"
+                            className="text-[10px] uppercase font-bold border-b border-black pb-0.5 hover:text-blue-600 hover:border-blue-600 transition-colors"
+                            onClick={(e) => e.stopPropagation()}
+                        >
+                            Wiki Link
+                        </a>
+                      )}
+                    </div>
                 </div>
               </div>
             </div>
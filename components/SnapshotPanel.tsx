@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { ArrowRight, X, GitDiff } from '@phosphor-icons/react';
+
+// A diff currently shown instead of the graph
+export interface SnapshotDiffSummary {
+  seed: string; // Title of the compared page
+  from: string; // YYYY-MM-DD
+  to: string;
+  added: number;
+  removed: number;
+}
+
+interface SnapshotPanelProps {
+  date: string | null; // YYYY-MM-DD every fetch reads, or null for the latest revisions
+  onDateChange: (date: string | null) => void;
+  dateLocked: boolean; // The date can only change on an empty graph so revisions never mix
+  defaultSeed?: string; // Seed used while the field is empty, e.g. the focused node
+  isLoading: boolean;
+  diff: SnapshotDiffSummary | null;
+  onDiff: (seed: string, from: string, to: string) => void;
+  onCloseDiff: () => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Historical snapshots: the date every fetch reads, and a form comparing one page's links
+ * at two dates.
+ */
+export const SnapshotPanel: React.FC<SnapshotPanelProps> = ({
+  date,
+  onDateChange,
+  dateLocked,
+  defaultSeed,
+  isLoading,
+  diff,
+  onDiff,
+  onCloseDiff,
+}) => {
+  const [seed, setSeed] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState(today);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const page = seed.trim() || defaultSeed;
+    if (page && from && to) onDiff(page, from < to ? from : to, from < to ? to : from);
+  };
+
+  const dateInputClass = "flex-1 min-w-0 bg-transparent outline-none uppercase disabled:cursor-not-allowed disabled:opacity-40";
+
+  return (
+    <div className="border-b border-black bg-stone-50 shrink-0 font-mono text-[10px] uppercase">
+      <div className="flex items-center h-[28px] px-3 gap-2">
+        <span className="text-gray-400 w-[32px] shrink-0">As of</span>
+        <input
+          type="date"
+          value={date || ''}
+          max={today()}
+          disabled={dateLocked}
+          onChange={(e) => onDateChange(e.target.value || null)}
+          className={dateInputClass}
+          title={dateLocked ? 'clear all nodes to change the date' : 'read every page as it was on this day'}
+        />
+        {date && !dateLocked && (
+          <button onClick={() => onDateChange(null)} className="hover:text-red-600" title="back to the latest revisions">
+            <X size={12} />
+          </button>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="border-t border-black">
+        <div className="flex items-center h-[28px] px-3 gap-2">
+          <span className="text-gray-400 w-[32px] shrink-0">Diff</span>
+          <input
+            type="text"
+            value={seed}
+            onChange={(e) => setSeed(e.target.value)}
+            placeholder={defaultSeed || 'wiki title'}
+            className="flex-1 min-w-0 bg-transparent outline-none normal-case placeholder:text-gray-400"
+          />
+        </div>
+        <div className="flex items-center h-[28px] border-t border-black">
+          <input type="date" value={from} max={today()} onChange={(e) => setFrom(e.target.value)} className={`${dateInputClass} px-3 h-full border-r border-black`} title="earlier date" />
+          <input type="date" value={to} max={today()} onChange={(e) => setTo(e.target.value)} className={`${dateInputClass} px-3 h-full`} title="later date" />
+          <button
+            type="submit"
+            disabled={isLoading || !(seed.trim() || defaultSeed) || !from || !to || from === to}
+            className="h-full aspect-square bg-black text-white flex items-center justify-center disabled:opacity-60"
+            title="compare the page's links at the two dates"
+          >
+            <ArrowRight size={12} />
+          </button>
+        </div>
+      </form>
+
+      {diff && (
+        <div className="flex items-center h-[28px] px-3 gap-2 border-t border-black">
+          <GitDiff size={12} className="shrink-0" />
+          <span className="truncate normal-case" title={`${diff.seed}: ${diff.from} → ${diff.to}`}>{diff.seed}</span>
+          <span className="text-green-600">+{diff.added}</span>
+          <span className="text-red-600">−{diff.removed}</span>
+          <button onClick={onCloseDiff} className="ml-auto hover:text-red-600" title="back to the graph">
+            <X size={12} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
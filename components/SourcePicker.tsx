@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Database, ArrowRight, FileArrowUp } from '@phosphor-icons/react';
+import { WikiDataSource } from '../types';
+import { createWikipediaSource, createMediaWikiSource, createDumpSource, parseDump } from '../services/dataSources';
+
+interface SourcePickerProps {
+  source: WikiDataSource;
+  onSourceChange: (source: WikiDataSource) => void;
+  disabled: boolean; // Sources can only be switched on an empty graph so node ids never mix
+}
+
+export const SourcePicker: React.FC<SourcePickerProps> = ({ source, onSourceChange, disabled }) => {
+  const [kind, setKind] = useState<WikiDataSource['id']>(source.id);
+  const [apiUrl, setApiUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleKindChange = (next: WikiDataSource['id']) => {
+    setKind(next);
+    setError(null);
+    // Wikipedia needs no configuration; the other two wait for an endpoint or a file
+    if (next === 'wikipedia') onSourceChange(createWikipediaSource());
+  };
+
+  const handleConnect = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      onSourceChange(createMediaWikiSource(apiUrl.trim()));
+      setError(null);
+    } catch (err: any) {
+      setError('INVALID API URL');
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onSourceChange(createDumpSource(parseDump(await file.text(), file.name)));
+      setError(null);
+    } catch (err: any) {
+      setError((err.message || 'INVALID DUMP').toUpperCase());
+    }
+  };
+
+  return (
+    <div className="border-b border-black bg-stone-50 shrink-0 font-mono text-[10px]">
+      <div className="flex items-center h-[28px] px-3 gap-2">
+        <Database size={12} weight="regular" className="shrink-0" />
+        <select
+          value={kind}
+          disabled={disabled}
+          onChange={(e) => handleKindChange(e.target.value as WikiDataSource['id'])}
+          className="bg-transparent outline-none uppercase cursor-pointer disabled:cursor-not-allowed"
+          title={disabled ? 'clear all nodes to switch source' : 'data source'}
+        >
+          <option value="wikipedia">Wikipedia</option>
+          <option value="mediawiki">MediaWiki API</option>
+          <option value="dump">Local Dump</option>
+        </select>
+        <span className="ml-auto truncate text-gray-400 uppercase" title={source.label}>{source.label}</span>
+      </div>
+
+      {kind === 'mediawiki' && !disabled && (
+        <form onSubmit={handleConnect} className="flex h-[28px] border-t border-black">
+          <input
+            type="url"
+            required
+            placeholder="https://wiki.example.org/w/api.php"
+            value={apiUrl}
+            onChange={(e) => setApiUrl(e.target.value)}
+            className="flex-1 min-w-0 bg-transparent outline-none px-3 placeholder:text-gray-400"
+          />
+          <button type="submit" className="h-full aspect-square bg-black text-white flex items-center justify-center" title="use this wiki">
+            <ArrowRight size={12} />
+          </button>
+        </form>
+      )}
+
+      {kind === 'dump' && !disabled && (
+        <label className="flex items-center gap-2 h-[28px] px-3 border-t border-black cursor-pointer hover:bg-stone-200 uppercase">
+          <FileArrowUp size={12} />
+          <span>Load JSON / XML dump</span>
+          <input type="file" accept=".json,.xml,application/json,application/xml,text/xml" className="hidden" onChange={handleFile} />
+        </label>
+      )}
+
+      {error && (
+        <div className="px-3 py-1 border-t border-black bg-red-50 text-red-600">Error: {error}</div>
+      )}
+    </div>
+  );
+};
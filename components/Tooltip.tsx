@@ -1,14 +1,16 @@
 
 import React from 'react';
+import { WikiNode } from '../types';
 
 interface TooltipProps {
   x: number;
   y: number;
   content: string;
+  node?: WikiNode; // Hovered node, for its preview (description, extract, thumbnail) once loaded
   visible: boolean;
 }
 
-export const Tooltip: React.FC<TooltipProps> = ({ x, y, content, visible }) => {
+export const Tooltip: React.FC<TooltipProps> = ({ x, y, content, node, visible }) => {
   if (!visible) return null;
 
   // Check if close to right edge (320px buffer covering maxWidth 300px + margin)
@@ -25,9 +27,22 @@ export const Tooltip: React.FC<TooltipProps> = ({ x, y, content, visible }) => {
         maxWidth: '300px'
       }}
     >
-      <p className="text-black text-sm font-mono font-bold break-words">
-        {content}
-      </p>
+      <div className="flex gap-2">
+        {node?.thumbnail && (
+          <img src={node.thumbnail} alt="" className="w-12 h-12 object-cover border border-black grayscale shrink-0" />
+        )}
+        <div className="min-w-0">
+          <p className="text-black text-sm font-mono font-bold break-words">
+            {content}
+          </p>
+          {node?.description && (
+            <p className="text-[10px] font-mono text-gray-500 uppercase leading-tight mt-1">{node.description}</p>
+          )}
+        </div>
+      </div>
+      {node?.extract && (
+        <p className="text-[11px] text-gray-700 leading-snug mt-2 line-clamp-4">{node.extract}</p>
+      )}
     </div>
   );
 };
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { FolderSimple, Plus, PencilSimple, Copy, Trash, Check } from '@phosphor-icons/react';
+import { WorkspaceSummary } from '../services/workspaceService';
+
+interface WorkspaceSwitcherProps {
+  workspaces: WorkspaceSummary[];
+  activeId: string | null;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * Picks the saved graph to work on. Changes autosave into the open workspace.
+ */
+export const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+  workspaces,
+  activeId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}) => {
+  const [renaming, setRenaming] = useState<string | null>(null); // Draft name while renaming
+  const active = workspaces.find(w => w.id === activeId);
+
+  // Storage unavailable: nothing to switch between
+  if (!active) return null;
+
+  const startRename = () => setRenaming(active.name);
+
+  const finishRename = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const name = renaming?.trim();
+    if (name && name !== active.name) onRename(active.id, name);
+    setRenaming(null);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete workspace "${active.name}"?`)) onDelete(active.id);
+  };
+
+  const buttonClass = "h-full aspect-square flex items-center justify-center border-l border-black hover:bg-stone-200 disabled:opacity-40 disabled:hover:bg-transparent shrink-0";
+
+  return (
+    <div className="flex items-center border-b border-black h-[28px] shrink-0 font-mono text-[10px] uppercase bg-stone-50">
+      <FolderSimple size={12} className="mx-3 shrink-0" />
+      {renaming !== null ? (
+        <form onSubmit={finishRename} className="flex-1 min-w-0 h-full flex">
+          <input
+            autoFocus
+            value={renaming}
+            onChange={(e) => setRenaming(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Escape') setRenaming(null); }}
+            onBlur={() => finishRename()}
+            className="flex-1 min-w-0 bg-transparent outline-none normal-case text-xs"
+          />
+          <button type="submit" className={buttonClass} title="save name">
+            <Check size={12} />
+          </button>
+        </form>
+      ) : (
+        <>
+          <select
+            value={active.id}
+            onChange={(e) => onSwitch(e.target.value)}
+            className="flex-1 min-w-0 h-full bg-transparent outline-none normal-case text-xs cursor-pointer"
+            title="open another workspace"
+          >
+            {workspaces.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+          </select>
+          <button onClick={onCreate} className={buttonClass} title="new empty workspace">
+            <Plus size={12} />
+          </button>
+          <button onClick={startRename} className={buttonClass} title="rename">
+            <PencilSimple size={12} />
+          </button>
+          <button onClick={() => onDuplicate(active.id)} className={buttonClass} title="duplicate">
+            <Copy size={12} />
+          </button>
+          <button onClick={handleDelete} disabled={workspaces.length < 2} className={`${buttonClass} hover:text-red-600`} title="delete workspace">
+            <Trash size={12} />
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
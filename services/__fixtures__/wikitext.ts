@@ -0,0 +1,82 @@
+// Wikitext modelled on English Wikipedia articles, trimmed to keep the tests short. The
+// markup follows the articles' own (comments, citations and template layout included).
+
+// "Albert Einstein": infobox with nested lists, citations, hatnotes and an image caption
+export const ALBERT_EINSTEIN = `{{Short description|German-born physicist (1879–1955)}}
+{{Redirect|Einstein}}
+{{Pp-semi-indef}}
+{{Use dmy dates|date=March 2023}}
+{{Infobox scientist
+| name = Albert Einstein
+| image = Albert Einstein Head.jpg
+| caption = Einstein in 1947
+| birth_date = {{Birth date|df=y|1879|3|14}}
+| birth_place = [[Ulm]], [[Kingdom of Württemberg]], [[German Empire]]
+| death_date = {{Death date and age|df=y|1955|4|18|1879|3|14}}
+| death_place = [[Princeton, New Jersey]], U.S.
+| citizenship = {{Plainlist|
+* [[Kingdom of Württemberg|Württemberg]], [[German Empire|Germany]] (1879–1896)<!-- [[Stateless person|Stateless]] 1896–1901 -->
+* [[Switzerland]] (1901–1955)
+}}
+| alma_mater = {{Plainlist|
+* [[ETH Zurich]] ([[Bachelor of Science|BSc]])
+* [[University of Zurich]] ([[Doctor of Philosophy|PhD]])
+}}
+| awards = [[Nobel Prize in Physics]] (1921)
+}}
+'''Albert Einstein''' ({{IPAc-en|ˈ|aɪ|n|s|t|aɪ|n}} {{respell|EYEN|styne}};<ref name="Wells">{{cite book |last=Wells |first=John |author-link=John C. Wells |title=Longman Pronunciation Dictionary |date=3 April 2008 |publisher=[[Pearson Education|Pearson Longman]] |isbn=978-1-4058-8118-0}}</ref> 14 March 1879 – 18 April 1955) was a German-born [[theoretical physicist]] who is best known for developing the [[theory of relativity]]. Einstein also made important contributions to [[quantum mechanics]].<ref name="YangSeitz2021" /> His [[mass–energy equivalence]] formula {{math|1=''E'' = ''mc''<sup>2</sup>}}, which arises from special relativity, has been called "the world's most famous equation".<ref>{{Cite book |last=Bodanis |first=David |title=E = mc<sup>2</sup>: A Biography of the World's Most Famous Equation |publisher=[[Walker & Company|Walker]] |year=2000}}</ref>
+
+== Life and career ==
+{{Main|Early life of Albert Einstein}}
+
+=== Childhood, youth and education ===
+{{See also|Einstein family}}
+[[File:Albert Einstein as a child.jpg|thumb|upright|Einstein in 1882, age {{circa|3}}, with his sister [[Maja Einstein|Maja]]]]
+{{Quote box |width=25% |align=right |quote=At the age of 12, he taught himself [[algebra]] and [[Euclidean geometry]] over a single summer. }}
+Albert Einstein was born in [[Ulm]],<ref name="Whittaker" /> in the [[Kingdom of Württemberg]] in the [[German Empire]], on 14 March 1879. His parents, secular [[Ashkenazi Jews]], were {{ill|Hermann Einstein|de}}, a salesman and engineer, and Pauline Koch.
+
+== See also ==
+{{Portal|Biography|Physics}}
+* [[Einstein notation]]
+* [[List of things named after Albert Einstein]]
+
+{{Authority control}}
+
+[[Category:1879 births]]
+[[de:Albert Einstein]]
+`;
+
+// "Template:Solar System" (the navbox transcluded on the planet articles), shortened
+export const SOLAR_SYSTEM_NAVBOX = `{{Navbox
+| name = Solar System
+| state = {{{state|autocollapse}}}
+| title = [[Solar System]]
+| listclass = hlist
+| group1 = [[Sun]]
+| list1 =
+* [[Mercury (planet)|Mercury]]
+* [[Venus]]
+* [[Earth]] ([[Moon|{{Nowrap|the Moon}}]])
+| group2 = [[Dwarf planet]]s
+| list2 = {{Navbox|child
+ | group1 = Asteroid belt
+ | list1 = [[Ceres (dwarf planet)|Ceres]]
+ }}
+}}<noinclude>
+{{Collapsible option}}
+</noinclude>`;
+
+// "Mercury": the disambiguation page
+export const MERCURY_DISAMBIGUATION = `{{wiktionary|Mercury|mercury}}
+'''Mercury''' commonly refers to:
+* [[Mercury (planet)]], the nearest planet to the Sun
+* [[Mercury (element)]], a metallic chemical element with the symbol Hg
+* [[Mercury (mythology)]], a Roman god
+
+'''Mercury''' or '''The Mercury''' may also refer to:
+
+== Companies ==
+* [[Mercury (automobile)]], a defunct division of the Ford Motor Company
+
+{{disambiguation}}
+`;
@@ -0,0 +1,138 @@
+import { CacheEntry, GraphData, LangLink, WikiDataSource } from '../types';
+import { makeNodeId, normalizeTitle } from './wikiService';
+
+const DB_NAME = 'wikicluster';
+const DB_VERSION = 1;
+const STORE = 'responses';
+
+export const DEFAULT_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against the response store.
+ */
+const withStore = async <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const listCacheEntries = (): Promise<CacheEntry[]> => withStore('readonly', store => store.getAll());
+export const deleteCacheEntry = (key: string): Promise<undefined> => withStore('readwrite', store => store.delete(key));
+export const clearCache = (): Promise<undefined> => withStore('readwrite', store => store.clear());
+
+const getCacheEntry = (key: string): Promise<CacheEntry | undefined> => withStore('readonly', store => store.get(key));
+const putCacheEntry = (entry: CacheEntry): Promise<IDBValidKey> => withStore('readwrite', store => store.put(entry));
+
+const makeCacheKey = (source: string, kind: CacheEntry['kind'], lang: string, maxLinks: number, title: string) =>
+  `${source}|${kind}|${lang}|${maxLinks}|${normalizeTitle(title)}`;
+
+/**
+ * Node ids whose cluster is in the cache for a source (expired entries included,
+ * since offline mode still serves them).
+ */
+export const getCachedNodeIds = (entries: CacheEntry[], source: string): Set<string> => {
+  const ids = new Set<string>();
+  entries
+    .filter(e => e.source === source && e.kind !== 'langlinks')
+    .forEach(e => {
+      ids.add(makeNodeId(normalizeTitle(e.title), e.lang));
+      if (e.centerId) ids.add(e.centerId);
+    });
+  return ids;
+};
+
+/**
+ * Keeps the center and its first `maxLinks` children (children are ordered strongest first).
+ */
+const trimCluster = (data: GraphData, maxLinks: number): GraphData => {
+  if (maxLinks === Infinity || data.nodes.length - 1 <= maxLinks) return data;
+  const nodes = data.nodes.slice(0, maxLinks + 1);
+  const kept = new Set(nodes.map(n => n.id));
+  return {
+    nodes,
+    links: data.links.filter(l => kept.has(l.source as string) && kept.has(l.target as string)),
+    disambiguation: data.disambiguation?.slice(0, maxLinks),
+  };
+};
+
+interface CacheOptions {
+  ttl: number; // Entries older than this are refetched while online
+  offline: boolean; // Never touch the network; only serve cached responses
+  onStore?: () => void; // Called after a response was written, e.g. to refresh the inspector
+}
+
+/**
+ * Puts a persistent response cache in front of a data source.
+ * - Online: fresh entries are served from IndexedDB, stale or missing ones are fetched and stored.
+ * - Offline: any cached entry is served regardless of age. A cluster cached with a higher
+ *   link limit is trimmed down; anything else fails with 'Not available offline'.
+ * Local dumps are already in memory and are returned unwrapped.
+ */
+export const withCache = (source: WikiDataSource, options: CacheOptions): WikiDataSource => {
+  if (source.id === 'dump') return source;
+
+  const cached = <T extends GraphData | LangLink[]>(
+    kind: CacheEntry['kind'],
+    fetcher: (title: string, maxLinks: number, lang: string, signal?: AbortSignal) => Promise<T>
+  ) => async (title: string, maxLinks: number, lang: string, signal?: AbortSignal): Promise<T> => {
+    const key = makeCacheKey(source.label, kind, lang, maxLinks, title);
+    const entry = await getCacheEntry(key).catch(() => undefined);
+
+    if (entry && (options.offline || Date.now() - entry.storedAt < options.ttl)) {
+      return entry.data as T;
+    }
+
+    if (options.offline) {
+      // Fall back to the same page cached with a higher link limit
+      const entries = await listCacheEntries().catch(() => [] as CacheEntry[]);
+      const wider = entries.find(e =>
+        e.source === source.label && e.kind === kind && e.lang === lang &&
+        normalizeTitle(e.title) === normalizeTitle(title) && e.maxLinks >= maxLinks
+      );
+      if (wider) return (kind === 'langlinks' ? wider.data : trimCluster(wider.data as GraphData, maxLinks)) as T;
+      throw new Error('Not available offline');
+    }
+
+    const data = await fetcher(title, maxLinks, lang, signal);
+    const centerId = kind !== 'langlinks' ? (data as GraphData).nodes[0]?.id : undefined;
+    // A failing write (quota, private mode) must not fail the fetch itself
+    putCacheEntry({ key, source: source.label, kind, title, lang, maxLinks, centerId, storedAt: Date.now(), data })
+      .then(() => options.onStore?.())
+      .catch(err => console.warn('Could not cache response:', err));
+    return data;
+  };
+
+  return {
+    ...source,
+    fetchLinks: cached('links', source.fetchLinks),
+    fetchBacklinks: cached('backlinks', source.fetchBacklinks),
+    fetchLangLinks: (title, lang, signal) =>
+      cached('langlinks', (t, _max, l, s) => source.fetchLangLinks(t, l, s))(title, 0, lang, signal),
+    // Previews, densify lookups, suggestions and category listings are not cached; offline there are none
+    fetchSummaries: options.offline ? undefined : source.fetchSummaries,
+    fetchLinksBetween: options.offline ? undefined : source.fetchLinksBetween,
+    fetchSuggestions: options.offline ? undefined : source.fetchSuggestions,
+    fetchCategoryMembers: options.offline ? undefined : source.fetchCategoryMembers,
+  };
+};
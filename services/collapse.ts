@@ -0,0 +1,32 @@
+import { GraphData } from '../types';
+
+/**
+ * Sub-nodes hidden by collapsed main nodes, per collapsed node. A sub-node is hidden when
+ * a collapsed node is the only main node it is linked to, so collapsing never takes away
+ * what another main node still reaches. Steps of the found path stay visible.
+ */
+export const collapsedSubNodes = (data: GraphData): Map<string, string[]> => {
+  const hidden = new Map<string, string[]>();
+  const collapsedIds = new Set(data.nodes.filter(n => n.group === 'main' && n.collapsed).map(n => n.id));
+  if (collapsedIds.size === 0) return hidden;
+
+  const groups = new Map(data.nodes.map(n => [n.id, n.group]));
+  const mainNeighbours = new Map<string, Set<string>>(); // Sub-node id -> main nodes it is linked to
+  data.links.forEach(l => {
+    const sid = typeof l.source === 'object' ? l.source.id : l.source;
+    const tid = typeof l.target === 'object' ? l.target.id : l.target;
+    [[sid, tid], [tid, sid]].forEach(([subId, mainId]) => {
+      if (groups.get(subId) !== 'sub' || groups.get(mainId) !== 'main') return;
+      if (!mainNeighbours.has(subId)) mainNeighbours.set(subId, new Set());
+      mainNeighbours.get(subId)!.add(mainId);
+    });
+  });
+
+  const onPath = new Set(data.path || []);
+  mainNeighbours.forEach((mainIds, subId) => {
+    const [mainId] = mainIds;
+    if (mainIds.size !== 1 || !collapsedIds.has(mainId) || onPath.has(subId)) return;
+    hidden.set(mainId, [...(hidden.get(mainId) || []), subId]);
+  });
+  return hidden;
+};
@@ -0,0 +1,379 @@
+import { WikiDataSource, MediaWikiSite, DumpPage, PageDump, GraphData, WikiNode, WikiLink, ExpansionMode, PageSummary, TitleLink, SearchSuggestion } from '../types';
+import {
+  DEFAULT_LANG,
+  fetchWikiLinks,
+  fetchWikiBacklinks,
+  fetchLangLinks,
+  fetchPageSummaries,
+  fetchLinksBetween,
+  fetchSearchSuggestions,
+  fetchCategoryMembers,
+  normalizeCategoryName,
+  createNode,
+  getWikipediaSite,
+  buildClusterFromWikitext,
+  canonicalizeCluster,
+  normalizeTitle,
+  splitSectionAnchor,
+} from './wikiService';
+import { isDisambiguationWikitext } from './wikitextParser';
+
+/**
+ * The live Wikipedia API. The language edition is picked per call,
+ * so nodes from several editions can live in the same graph.
+ */
+export const createWikipediaSource = (): WikiDataSource => ({
+  id: 'wikipedia',
+  label: 'Wikipedia',
+  supportsLanguages: true,
+  defaultLang: DEFAULT_LANG,
+  fetchLinks: (title, maxLinks, lang, signal) => fetchWikiLinks(title, maxLinks, lang, getWikipediaSite(lang), signal),
+  fetchBacklinks: (title, maxLinks, lang, signal) => fetchWikiBacklinks(title, maxLinks, lang, getWikipediaSite(lang), signal),
+  fetchLangLinks: (title, lang, signal) => fetchLangLinks(title, lang, getWikipediaSite(lang), signal),
+  fetchSummaries: (titles, lang, signal) => fetchPageSummaries(titles, lang, getWikipediaSite(lang), signal),
+  fetchLinksBetween: (sources, targets, lang, signal) => fetchLinksBetween(sources, targets, lang, getWikipediaSite(lang), signal),
+  fetchCategoryMembers: (category, depth, limit, lang, signal) => fetchCategoryMembers(category, depth, limit, lang, getWikipediaSite(lang), signal),
+  fetchSuggestions: (query, lang, signal) => fetchSearchSuggestions(query, lang, getWikipediaSite(lang), signal),
+  fetchLinksAt: (title, maxLinks, lang, timestamp, signal) => fetchWikiLinks(title, maxLinks, lang, getWikipediaSite(lang), signal, timestamp),
+});
+
+/**
+ * Guesses the article path of a wiki from its API endpoint.
+ * Example: https://wiki.example.org/w/api.php -> https://wiki.example.org/wiki/
+ *          https://starwars.fandom.com/api.php -> https://starwars.fandom.com/wiki/
+ */
+const deriveArticleBase = (apiUrl: string): string => apiUrl.replace(/\/(w\/)?api\.php.*$/, '/wiki/');
+
+/**
+ * Any MediaWiki installation (self-hosted wikis, Fandom, a local fixture server).
+ * The wiki has a single edition, so every node is recorded with `lang`.
+ */
+export const createMediaWikiSource = (apiUrl: string, lang: string = DEFAULT_LANG, articleBase?: string): WikiDataSource => {
+  const base = articleBase || deriveArticleBase(apiUrl);
+  const site: MediaWikiSite = {
+    apiUrl,
+    articleUrl: (title: string) => `${base}${encodeURIComponent(title.replace(/ /g, '_'))}`,
+  };
+
+  return {
+    id: 'mediawiki',
+    label: new URL(apiUrl).host,
+    supportsLanguages: false,
+    defaultLang: lang,
+    fetchLinks: (title, maxLinks, _lang, signal) => fetchWikiLinks(title, maxLinks, lang, site, signal),
+    fetchBacklinks: (title, maxLinks, _lang, signal) => fetchWikiBacklinks(title, maxLinks, lang, site, signal),
+    fetchLangLinks: (title, _lang, signal) => fetchLangLinks(title, lang, site, signal),
+    // Extracts and page images need the TextExtracts/PageImages extensions; missing props are just empty
+    fetchSummaries: (titles, _lang, signal) => fetchPageSummaries(titles, lang, site, signal),
+    fetchLinksBetween: (sources, targets, _lang, signal) => fetchLinksBetween(sources, targets, lang, site, signal),
+    fetchCategoryMembers: (category, depth, limit, _lang, signal) => fetchCategoryMembers(category, depth, limit, lang, site, signal),
+    fetchSuggestions: (query, _lang, signal) => fetchSearchSuggestions(query, lang, site, signal),
+    fetchLinksAt: (title, maxLinks, _lang, timestamp, signal) => fetchWikiLinks(title, maxLinks, lang, site, signal, timestamp),
+  };
+};
+
+const MAX_DUMP_SUGGESTIONS = 8;
+
+/**
+ * A page dump loaded into memory. Redirect pages are followed (a few hops at most)
+ * and pages are looked up by normalized title, like the live API does.
+ */
+export const createDumpSource = (dump: PageDump): WikiDataSource => {
+  const lang = dump.lang || DEFAULT_LANG;
+  const pageIndex = new Map<string, DumpPage>();
+  dump.pages.forEach(p => pageIndex.set(normalizeTitle(p.title), p));
+
+  const articleUrl = (title: string) =>
+    dump.baseUrl ? `${dump.baseUrl}${encodeURIComponent(title.replace(/ /g, '_'))}` : '';
+
+  const findPage = (title: string): DumpPage | undefined => {
+    let page = pageIndex.get(normalizeTitle(title));
+    for (let hops = 0; page?.redirect && hops < 5; hops++) {
+      page = pageIndex.get(normalizeTitle(page.redirect));
+    }
+    return page;
+  };
+
+  // Redirects inside the dump resolve like they do on the live wiki; unknown titles stay as they are
+  const canonicalTitleOf = (title: string) => {
+    const page = findPage(title);
+    return page ? normalizeTitle(page.title) : title;
+  };
+
+  const clusterOf = (page: DumpPage, maxLinks: number, section?: string) => canonicalizeCluster(
+    buildClusterFromWikitext(
+      { title: normalizeTitle(page.title), description: page.description, content: page.text, section },
+      maxLinks,
+      lang,
+      articleUrl
+    ),
+    canonicalTitleOf,
+    articleUrl
+  );
+
+  // "What links here" for the whole dump, built on first use: target title -> linking titles
+  let backlinkIndex: Map<string, string[]> | null = null;
+  const getBacklinkIndex = () => {
+    if (backlinkIndex) return backlinkIndex;
+    const index = new Map<string, string[]>();
+    dump.pages.forEach(page => {
+      if (page.redirect) return;
+      clusterOf(page, Infinity).nodes.slice(1).forEach(child => {
+        if (!findPage(child.title)) return;
+        const key = child.title;
+        const linking = index.get(key);
+        if (linking) linking.push(normalizeTitle(page.title));
+        else index.set(key, [normalizeTitle(page.title)]);
+      });
+    });
+    backlinkIndex = index;
+    return index;
+  };
+
+  return {
+    id: 'dump',
+    label: dump.name,
+    supportsLanguages: false,
+    defaultLang: lang,
+    fetchLinks: async (titleRef, maxLinks) => {
+      const { title, section } = splitSectionAnchor(titleRef);
+      const page = findPage(title);
+      if (!page) throw new Error('Page not found');
+      const cluster = clusterOf(page, maxLinks, section);
+      if (!isDisambiguationWikitext(page.text)) return cluster;
+      return {
+        ...cluster,
+        disambiguation: cluster.nodes.slice(1).map(n => ({ title: n.title, description: findPage(n.title)?.description })),
+      };
+    },
+    fetchBacklinks: async (title, maxLinks) => {
+      const page = findPage(title);
+      if (!page) throw new Error('Page not found');
+
+      const canonicalTitle = normalizeTitle(page.title);
+      const linking = (getBacklinkIndex().get(canonicalTitle) || [])
+        .filter(t => t !== canonicalTitle)
+        .slice(0, maxLinks === Infinity ? undefined : maxLinks);
+
+      const centerNode = createNode(canonicalTitle, 'main', lang, articleUrl, page.description);
+      const childNodes = linking.map(t => createNode(t, 'sub', lang, articleUrl));
+      return {
+        nodes: [centerNode, ...childNodes],
+        links: childNodes.map(child => ({ source: child.id, target: centerNode.id, value: 1, kind: 'backlink' as const })),
+      };
+    },
+    // Dumps carry no interlanguage table
+    fetchLangLinks: async () => [],
+    // Only the descriptions the dump provides; no extracts or images
+    fetchSummaries: async (titles) => {
+      const summaries = new Map<string, PageSummary>();
+      titles.forEach(t => {
+        const description = findPage(t)?.description;
+        if (description) summaries.set(t, { description });
+      });
+      return summaries;
+    },
+    // Unlimited clusters, so links are matched against every target (redirects included)
+    fetchLinksBetween: async (sources, targets) => {
+      const wanted = new Set(targets.map(canonicalTitleOf));
+      const links: TitleLink[] = [];
+      sources.forEach(title => {
+        const page = findPage(title);
+        if (!page) return;
+        clusterOf(page, Infinity).nodes.slice(1).forEach(child => {
+          if (wanted.has(child.title)) links.push({ source: normalizeTitle(page.title), target: child.title });
+        });
+      });
+      return { links, complete: true };
+    },
+    // Pages tagged [[Category:...]]; dumps hold no category pages, so subcategories are not followed
+    fetchCategoryMembers: async (category, _depth, limit) => {
+      const wanted = normalizeCategoryName(category);
+      const members: string[] = [];
+      for (const page of dump.pages) {
+        if (members.length >= limit) break;
+        if (page.redirect) continue;
+        const categories = Array.from(page.text.matchAll(/\[\[\s*category\s*:\s*([^|\]]+)/gi), m => normalizeCategoryName(m[1]));
+        if (categories.includes(wanted)) members.push(normalizeTitle(page.title));
+      }
+      return members;
+    },
+    // Article titles (redirects excluded) starting with the query, ignoring case
+    fetchSuggestions: async (query) => {
+      const prefix = normalizeTitle(query).toLowerCase();
+      const suggestions: SearchSuggestion[] = [];
+      for (const page of dump.pages) {
+        if (suggestions.length >= MAX_DUMP_SUGGESTIONS) break;
+        if (page.redirect || !normalizeTitle(page.title).toLowerCase().startsWith(prefix)) continue;
+        suggestions.push({ title: normalizeTitle(page.title), description: page.description });
+      }
+      return suggestions;
+    },
+  };
+};
+
+/**
+ * Fetches a cluster around a page in the requested direction.
+ * 'both' merges the outgoing and incoming clusters into one, keyed on the outgoing
+ * center node (the two can only differ if the source resolved titles differently).
+ */
+export const fetchCluster = async (
+  source: WikiDataSource,
+  title: string,
+  maxLinks: number,
+  lang: string,
+  mode: ExpansionMode,
+  signal?: AbortSignal
+): Promise<GraphData> => {
+  if (mode === 'out') return source.fetchLinks(title, maxLinks, lang, signal);
+  if (mode === 'in') return source.fetchBacklinks(title, maxLinks, lang, signal);
+
+  const [outgoing, incoming] = await Promise.all([
+    source.fetchLinks(title, maxLinks, lang, signal),
+    source.fetchBacklinks(title, maxLinks, lang, signal),
+  ]);
+  if (outgoing.nodes.length === 0) return incoming;
+
+  const centerId = outgoing.nodes[0].id;
+  const incomingCenterId = incoming.nodes[0]?.id;
+  const nodeMap = new Map<string, WikiNode>();
+  [...outgoing.nodes, ...incoming.nodes.slice(1)].forEach(n => {
+    if (!nodeMap.has(n.id)) nodeMap.set(n.id, n);
+  });
+
+  const links: WikiLink[] = [
+    ...outgoing.links,
+    ...incoming.links.map(l => ({ ...l, target: l.target === incomingCenterId ? centerId : l.target })),
+  ];
+  return { nodes: Array.from(nodeMap.values()), links };
+};
+
+/**
+ * Pins a source to a past moment: outgoing links come from the revision that was current
+ * at `timestamp`. The label carries the date so cached snapshots never mix with live data.
+ * Backlinks and densify have no history in the API, so they are unavailable.
+ * Sources without page history are returned unchanged.
+ */
+export const atSnapshot = (source: WikiDataSource, timestamp: string): WikiDataSource => {
+  const fetchLinksAt = source.fetchLinksAt;
+  if (!fetchLinksAt) return source;
+
+  return {
+    ...source,
+    label: `${source.label}@${timestamp.slice(0, 10)}`,
+    fetchLinks: (title, maxLinks, lang, signal) => fetchLinksAt(title, maxLinks, lang, timestamp, signal),
+    fetchBacklinks: async () => {
+      throw new Error('Backlinks are not available for past dates');
+    },
+    fetchLinksBetween: undefined,
+  };
+};
+
+/**
+ * Compares two clusters of the same page (e.g. two snapshots). The result holds every
+ * child of either cluster; links only in `after` are marked 'added', links only in
+ * `before` are marked 'removed'. Unchanged links are kept up to `maxUnchanged`,
+ * strongest first, so the changes are never crowded out.
+ */
+export const diffClusters = (before: GraphData, after: GraphData, maxUnchanged: number): GraphData => {
+  const center = after.nodes[0] || before.nodes[0];
+  if (!center) return { nodes: [], links: [] };
+
+  const childLinks = (cluster: GraphData) => {
+    const map = new Map<string, WikiLink>();
+    cluster.links.forEach(l => {
+      if (l.source !== cluster.nodes[0].id) return;
+      map.set(l.target as string, l);
+    });
+    return map;
+  };
+  const beforeLinks = childLinks(before);
+  const afterLinks = childLinks(after);
+
+  const nodeMap = new Map<string, WikiNode>();
+  [...after.nodes.slice(1), ...before.nodes.slice(1)].forEach(n => {
+    if (!nodeMap.has(n.id)) nodeMap.set(n.id, n);
+  });
+
+  const links: WikiLink[] = [];
+  let unchanged = 0;
+  afterLinks.forEach((link, target) => {
+    if (!beforeLinks.has(target)) links.push({ ...link, source: center.id, diff: 'added' });
+    else if (unchanged < maxUnchanged) {
+      links.push({ ...link, source: center.id });
+      unchanged++;
+    }
+  });
+  beforeLinks.forEach((link, target) => {
+    if (!afterLinks.has(target)) links.push({ ...link, source: center.id, diff: 'removed' });
+  });
+
+  const shown = new Set(links.map(l => l.target as string));
+  return { nodes: [center, ...Array.from(nodeMap.values()).filter(n => shown.has(n.id))], links };
+};
+
+/**
+ * Parses a MediaWiki XML export (Special:Export / dumps.wikimedia.org).
+ * Only main-namespace pages are kept; for each page the last revision wins.
+ */
+const parseXmlDump = (text: string, name: string): PageDump => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Invalid XML dump');
+
+  // <base> points at the main page, e.g. https://en.wikipedia.org/wiki/Main_Page
+  const base = doc.getElementsByTagName('base')[0]?.textContent || '';
+  const baseUrl = base ? base.slice(0, base.lastIndexOf('/') + 1) : undefined;
+  const lang = doc.documentElement.getAttribute('xml:lang') || undefined;
+
+  const pages: DumpPage[] = [];
+  Array.from(doc.getElementsByTagName('page')).forEach(pageEl => {
+    const ns = pageEl.getElementsByTagName('ns')[0]?.textContent;
+    if (ns && ns !== '0') return;
+
+    const title = pageEl.getElementsByTagName('title')[0]?.textContent;
+    if (!title) return;
+
+    const texts = pageEl.getElementsByTagName('text');
+    const redirect = pageEl.getElementsByTagName('redirect')[0]?.getAttribute('title') || undefined;
+    pages.push({ title, text: texts[texts.length - 1]?.textContent || '', redirect });
+  });
+
+  return { name, baseUrl, lang, pages };
+};
+
+/**
+ * Parses a JSON dump. Accepted shapes:
+ * - `[{ "title": "...", "text": "<wikitext>" }, ...]`
+ * - `{ "baseUrl": "https://wiki.example.org/wiki/", "lang": "en", "pages": [...] }`
+ * Each page may also carry `description` and `redirect`.
+ */
+const parseJsonDump = (text: string, name: string): PageDump => {
+  const raw = JSON.parse(text);
+  const entries: any[] = Array.isArray(raw) ? raw : raw.pages;
+  if (!Array.isArray(entries)) throw new Error('JSON dump must be an array of pages or have a "pages" array');
+
+  const pages: DumpPage[] = entries
+    .filter(p => p && typeof p.title === 'string')
+    .map(p => ({
+      title: p.title,
+      text: typeof p.text === 'string' ? p.text : '',
+      description: typeof p.description === 'string' ? p.description : undefined,
+      redirect: typeof p.redirect === 'string' ? p.redirect : undefined,
+    }));
+
+  return {
+    name,
+    baseUrl: Array.isArray(raw) ? undefined : raw.baseUrl,
+    lang: Array.isArray(raw) ? undefined : raw.lang,
+    pages,
+  };
+};
+
+/**
+ * Parses a local dump file, choosing the format by its content.
+ */
+export const parseDump = (text: string, name: string): PageDump => {
+  const dump = text.trimStart().startsWith('<') ? parseXmlDump(text, name) : parseJsonDump(text, name);
+  if (dump.pages.length === 0) throw new Error('Dump contains no pages');
+  return dump;
+};
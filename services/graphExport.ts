@@ -0,0 +1,304 @@
+import { GraphData, WikiNode, WikiLink } from '../types';
+
+export type ExportFormat = 'graphml' | 'gexf' | 'json' | 'csv-nodes' | 'csv-edges' | 'dot';
+
+export const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string; extension: string; mime: string }> = [
+  { format: 'graphml', label: 'GraphML', extension: 'graphml', mime: 'application/graphml+xml' },
+  { format: 'gexf', label: 'GEXF', extension: 'gexf', mime: 'application/xml' },
+  { format: 'json', label: 'JSON', extension: 'json', mime: 'application/json' },
+  { format: 'csv-nodes', label: 'Nodes CSV', extension: 'nodes.csv', mime: 'text/csv' },
+  { format: 'csv-edges', label: 'Edges CSV', extension: 'edges.csv', mime: 'text/csv' },
+  { format: 'dot', label: 'DOT', extension: 'dot', mime: 'text/vnd.graphviz' },
+];
+
+export const GRAPH_JSON_FORMAT = 'wikicluster-graph';
+export const GRAPH_JSON_VERSION = 1;
+
+/**
+ * The JSON export (see GRAPH_JSON_SCHEMA for the same in JSON Schema form).
+ */
+export interface GraphExport {
+  format: typeof GRAPH_JSON_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601
+  nodes: Array<{
+    id: string; // "<lang>:<title>"
+    title: string;
+    lang: string;
+    group: 'main' | 'sub';
+    url: string;
+    description?: string;
+    source?: string; // Id of the node this one was found from, or 'ROOT'
+    x?: number; // Layout position (screen units, y pointing down)
+    y?: number;
+    pinned?: boolean; // Kept at x, y instead of placed by the layout
+  }>;
+  links: Array<{
+    source: string; // Node id
+    target: string; // Node id
+    weight: number;
+    kind: 'link' | 'backlink' | 'langlink';
+  }>;
+  path?: string[]; // Node ids of a highlighted shortest path, in order
+}
+
+export const GRAPH_JSON_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'WIKICLUSTER graph',
+  description: 'A graph of Wikipedia articles (nodes) and the links between them, as exported by WIKICLUSTER.',
+  type: 'object',
+  required: ['format', 'version', 'nodes', 'links'],
+  properties: {
+    format: { const: GRAPH_JSON_FORMAT },
+    version: { const: GRAPH_JSON_VERSION },
+    exportedAt: { type: 'string', format: 'date-time' },
+    nodes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'title', 'lang', 'group', 'url'],
+        properties: {
+          id: { type: 'string', description: 'Unique id: "<lang>:<title>"' },
+          title: { type: 'string', description: 'Article title' },
+          lang: { type: 'string', description: 'Wikipedia language edition, e.g. "en"' },
+          group: { enum: ['main', 'sub'], description: 'main: searched or expanded article; sub: only linked' },
+          url: { type: 'string', format: 'uri' },
+          description: { type: 'string', description: 'Short description of the article' },
+          source: { type: 'string', description: 'Id of the node this one was found from, or "ROOT" for a search' },
+          x: { type: 'number', description: 'Layout x position' },
+          y: { type: 'number', description: 'Layout y position (pointing down)' },
+          pinned: { type: 'boolean', description: 'Pinned by the user at x, y' },
+        },
+      },
+    },
+    links: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['source', 'target', 'weight', 'kind'],
+        properties: {
+          source: { type: 'string', description: 'Node id' },
+          target: { type: 'string', description: 'Node id' },
+          weight: { type: 'number', description: 'How strongly the source article links to the target' },
+          kind: { enum: ['link', 'backlink', 'langlink'], description: 'link: wikitext link; backlink: found via "What links here"; langlink: same concept in another edition' },
+        },
+      },
+    },
+    path: { type: 'array', items: { type: 'string' }, description: 'Node ids of a highlighted shortest path, in order' },
+  },
+};
+
+const linkEndId = (end: string | WikiNode) => (typeof end === 'object' ? end.id : end);
+
+const hasPosition = (n: WikiNode) => n.x !== undefined && n.y !== undefined;
+
+// Pinned nodes are fixed where the user left them (fx, fy)
+const isPinned = (n: WikiNode) => n.fx != null && n.fy != null;
+
+// Positions are rounded; sub-pixel precision is only noise in a file
+const coordinate = (value: number) => Math.round(value * 100) / 100;
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/\r?\n/g, '&#10;'); // Kept through attribute value normalisation
+
+const toGraphML = (data: GraphData): string => {
+  const nodeKeys: Array<[string, string, 'string' | 'double' | 'boolean']> = [
+    ['title', 'title', 'string'],
+    ['lang', 'lang', 'string'],
+    ['group', 'group', 'string'],
+    ['url', 'url', 'string'],
+    ['description', 'description', 'string'],
+    ['source', 'source', 'string'],
+    ['x', 'x', 'double'],
+    ['y', 'y', 'double'],
+    ['pinned', 'pinned', 'boolean'],
+  ];
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...nodeKeys.map(([id, name, type]) => `  <key id="${id}" for="node" attr.name="${name}" attr.type="${type}"/>`),
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    '  <key id="kind" for="edge" attr.name="kind" attr.type="string"/>',
+    '  <graph id="wikicluster" edgedefault="directed">',
+  ];
+  const dataLine = (key: string, value: string | number | undefined) =>
+    value === undefined || value === '' ? [] : [`      <data key="${key}">${escapeXml(String(value))}</data>`];
+
+  data.nodes.forEach(n => {
+    lines.push(
+      `    <node id="${escapeXml(n.id)}">`,
+      ...dataLine('title', n.title),
+      ...dataLine('lang', n.lang),
+      ...dataLine('group', n.group),
+      ...dataLine('url', n.url),
+      ...dataLine('description', n.description),
+      ...dataLine('source', n.source),
+      ...(hasPosition(n) ? [...dataLine('x', coordinate(n.x!)), ...dataLine('y', coordinate(n.y!))] : []),
+      ...dataLine('pinned', isPinned(n) ? 'true' : undefined),
+      '    </node>'
+    );
+  });
+  data.links.forEach((l, i) => {
+    lines.push(
+      `    <edge id="e${i}" source="${escapeXml(linkEndId(l.source))}" target="${escapeXml(linkEndId(l.target))}">`,
+      ...dataLine('weight', l.value),
+      ...dataLine('kind', l.kind || 'link'),
+      '    </edge>'
+    );
+  });
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n');
+};
+
+const toGEXF = (data: GraphData): string => {
+  const nodeAttributes = ['lang', 'group', 'url', 'description', 'source'] as const;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}"><creator>WIKICLUSTER</creator></meta>`,
+    '  <graph defaultedgetype="directed" mode="static">',
+    '    <attributes class="node">',
+    ...nodeAttributes.map((name, i) => `      <attribute id="${i}" title="${name}" type="string"/>`),
+    '      <attribute id="pinned" title="pinned" type="boolean"/>',
+    '    </attributes>',
+    '    <attributes class="edge">',
+    '      <attribute id="kind" title="kind" type="string"/>',
+    '    </attributes>',
+    '    <nodes>',
+  ];
+  data.nodes.forEach(n => {
+    lines.push(`      <node id="${escapeXml(n.id)}" label="${escapeXml(n.title)}">`, '        <attvalues>');
+    nodeAttributes.forEach((name, i) => {
+      const value = n[name];
+      if (value) lines.push(`          <attvalue for="${i}" value="${escapeXml(value)}"/>`);
+    });
+    if (isPinned(n)) lines.push('          <attvalue for="pinned" value="true"/>');
+    lines.push('        </attvalues>');
+    if (hasPosition(n)) lines.push(`        <viz:position x="${coordinate(n.x!)}" y="${coordinate(n.y!)}" z="0"/>`);
+    lines.push('      </node>');
+  });
+  lines.push('    </nodes>', '    <edges>');
+  data.links.forEach((l, i) => {
+    lines.push(
+      `      <edge id="${i}" source="${escapeXml(linkEndId(l.source))}" target="${escapeXml(linkEndId(l.target))}" weight="${l.value}">`,
+      `        <attvalues><attvalue for="kind" value="${l.kind || 'link'}"/></attvalues>`,
+      '      </edge>'
+    );
+  });
+  lines.push('    </edges>', '  </graph>', '</gexf>');
+  return lines.join('\n');
+};
+
+const toJSON = (data: GraphData): string => {
+  const graph: GraphExport = {
+    format: GRAPH_JSON_FORMAT,
+    version: GRAPH_JSON_VERSION,
+    exportedAt: new Date().toISOString(),
+    nodes: data.nodes.map(n => ({
+      id: n.id,
+      title: n.title,
+      lang: n.lang,
+      group: n.group,
+      url: n.url,
+      description: n.description,
+      source: n.source,
+      ...(hasPosition(n) ? { x: coordinate(n.x!), y: coordinate(n.y!) } : {}),
+      ...(isPinned(n) ? { pinned: true } : {}),
+    })),
+    links: data.links.map((l: WikiLink) => ({
+      source: linkEndId(l.source),
+      target: linkEndId(l.target),
+      weight: l.value,
+      kind: l.kind || 'link',
+    })),
+    path: data.path,
+  };
+  return JSON.stringify(graph, null, 2);
+};
+
+// RFC 4180: quote fields with separators, quotes or line breaks
+const csvField = (value: string | number | undefined) => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCSV = (rows: Array<Array<string | number | undefined>>) => rows.map(r => r.map(csvField).join(',')).join('\r\n');
+
+const toNodesCSV = (data: GraphData): string => toCSV([
+  ['id', 'title', 'lang', 'group', 'url', 'description', 'source', 'x', 'y', 'pinned'],
+  ...data.nodes.map(n => [
+    n.id, n.title, n.lang, n.group, n.url, n.description, n.source,
+    hasPosition(n) ? coordinate(n.x!) : undefined,
+    hasPosition(n) ? coordinate(n.y!) : undefined,
+    isPinned(n) ? 'true' : undefined,
+  ]),
+]);
+
+const toEdgesCSV = (data: GraphData): string => toCSV([
+  ['source', 'target', 'weight', 'kind'],
+  ...data.links.map(l => [linkEndId(l.source), linkEndId(l.target), l.value, l.kind || 'link']),
+]);
+
+const dotString = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+
+const toDOT = (data: GraphData): string => {
+  const lines = ['digraph wikicluster {', '  node [shape=circle];'];
+  data.nodes.forEach(n => {
+    const attributes: Array<[string, string]> = [
+      ['label', n.title],
+      ['lang', n.lang],
+      ['group', n.group],
+      ['URL', n.url],
+    ];
+    if (n.description) attributes.push(['description', n.description]);
+    if (n.source) attributes.push(['source', n.source]);
+    // Graphviz's y axis points up; "!" keeps the position when laid out with neato -n
+    if (hasPosition(n)) attributes.push(['pos', `${coordinate(n.x!)},${coordinate(-n.y!)}!`]);
+    if (n.group === 'main') attributes.push(['style', 'filled'], ['fillcolor', 'black'], ['fontcolor', 'white']);
+    lines.push(`  ${dotString(n.id)} [${attributes.map(([k, v]) => `${k}=${dotString(v)}`).join(', ')}];`);
+  });
+  data.links.forEach(l => {
+    // dot only accepts whole weights; the exact one is kept as "value"
+    const weight = Math.max(1, Math.round(l.value));
+    lines.push(`  ${dotString(linkEndId(l.source))} -> ${dotString(linkEndId(l.target))} [weight=${weight}, value=${l.value}, kind=${dotString(l.kind || 'link')}];`);
+  });
+  lines.push('}');
+  return lines.join('\n');
+};
+
+const SERIALIZERS: Record<ExportFormat, (data: GraphData) => string> = {
+  graphml: toGraphML,
+  gexf: toGEXF,
+  json: toJSON,
+  'csv-nodes': toNodesCSV,
+  'csv-edges': toEdgesCSV,
+  dot: toDOT,
+};
+
+export const serializeGraphAs = (data: GraphData, format: ExportFormat): string => SERIALIZERS[format](data);
+
+/**
+ * Hands a generated file to the browser as a download.
+ */
+export const downloadFile = (filename: string, content: BlobPart, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  // Revoked on the next tick, once the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Saves the graph in the given format as "<basename>.<extension>".
+ */
+export const exportGraph = (data: GraphData, format: ExportFormat, basename: string) => {
+  const { extension, mime } = EXPORT_FORMATS.find(f => f.format === format)!;
+  downloadFile(`${basename}.${extension}`, serializeGraphAs(data, format), mime);
+};
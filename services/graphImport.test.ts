@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { parseImportFiles } from './graphImport';
+
+// Edge table as Gephi's Data Laboratory exports it
+const GEPHI_EDGES = [
+  'Source,Target,Type,Id,Label,Weight',
+  'Paris,Seine,Directed,0,,2.0',
+  'Seine,Le Havre,Directed,1,,1.0',
+  'Le Havre,Paris,Undirected,2,road,1.0',
+].join('\r\n');
+
+const GEPHI_NODES = [
+  'Id,Label',
+  'Paris,Paris',
+  'Seine,Seine',
+  'Le Havre,Le Havre',
+].join('\r\n');
+
+describe('parseImportFiles', () => {
+  it('reads a Gephi edge table as an edge list', () => {
+    const { data, problems } = parseImportFiles([{ name: 'edges.csv', text: GEPHI_EDGES }], 'en');
+    expect(problems).toEqual([]);
+    expect(data.nodes.map(n => n.id)).toEqual(['en:Paris', 'en:Seine', 'en:Le Havre']);
+    expect(data.links).toEqual([
+      { source: 'en:Paris', target: 'en:Seine', value: 2, kind: 'link' },
+      { source: 'en:Seine', target: 'en:Le Havre', value: 1, kind: 'link' },
+      { source: 'en:Le Havre', target: 'en:Paris', value: 1, kind: 'link' },
+    ]);
+  });
+
+  it('pairs a Gephi node table with its edge table in either order', () => {
+    const { data } = parseImportFiles([
+      { name: 'edges.csv', text: GEPHI_EDGES },
+      { name: 'nodes.csv', text: GEPHI_NODES },
+    ], 'en');
+    expect(data.nodes).toHaveLength(3);
+    expect(data.links).toHaveLength(3);
+  });
+});
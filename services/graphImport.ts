@@ -0,0 +1,382 @@
+import { GraphData, WikiNode, WikiLink } from '../types';
+import { getArticleUrl, makeNodeId, normalizeTitle } from './wikiService';
+import { GRAPH_JSON_FORMAT, GRAPH_JSON_VERSION } from './graphExport';
+
+export interface ImportResult {
+  data: GraphData;
+  problems: string[]; // Rows or elements that were skipped, and why
+}
+
+// A raw node before validation; only the title is required
+interface NodeRecord {
+  id?: string;
+  title?: string;
+  lang?: string;
+  group?: string;
+  url?: string;
+  description?: string;
+  source?: string;
+  x?: number | string;
+  y?: number | string;
+  pinned?: boolean | string; // "true" in GraphML and CSV
+}
+
+interface LinkRecord {
+  source?: string;
+  target?: string;
+  weight?: number | string;
+  kind?: string;
+}
+
+// Characters MediaWiki never allows in a title
+const ILLEGAL_TITLE_CHARS = /[#<>[\]|{}\u0000-\u001f\u007f]/;
+const MAX_TITLE_BYTES = 255;
+const LANG_PATTERN = /^[a-z][a-z0-9-]{1,15}$/;
+// "en:Paris": a node id, or a title qualified with its language edition
+const QUALIFIED_TITLE = /^([a-z][a-z0-9-]{1,15}):(.+)$/;
+const LINK_KINDS = new Set(['link', 'backlink', 'langlink']);
+// Problems listed individually; the rest are only counted
+const MAX_PROBLEMS = 20;
+
+export const isValidTitle = (title: string) =>
+  title.length > 0 && !ILLEGAL_TITLE_CHARS.test(title) && new TextEncoder().encode(title).length <= MAX_TITLE_BYTES;
+
+const toNumber = (value: number | string | undefined): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const n = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const toBoolean = (value: boolean | string | undefined): boolean =>
+  value === true || (typeof value === 'string' && /^(true|yes|1)$/i.test(value.trim()));
+
+/**
+ * Turns raw records into graph data, with the ids the app would give the same articles:
+ * titles are normalized and validated, groups must be 'main' or 'sub', and nodes that
+ * turn out to be the same article are merged. Links to unknown nodes are skipped, unless
+ * there are no node records at all (a bare edge list), in which case every endpoint
+ * becomes a main node.
+ */
+const buildGraph = (nodeRecords: NodeRecord[], linkRecords: LinkRecord[], defaultLang: string, path?: unknown): ImportResult => {
+  const problems: string[] = [];
+  const report = (problem: string) => {
+    if (problems.length < MAX_PROBLEMS) problems.push(problem);
+    else if (problems.length === MAX_PROBLEMS) problems.push('…more problems not listed');
+  };
+
+  const nodeMap = new Map<string, WikiNode>();
+  const idMap = new Map<string, string>(); // Id used in the file -> graph id
+
+  // Resolves a title or "<lang>:<title>" reference to a graph id
+  const parseReference = (ref: string, lang?: string): { title: string; lang: string } => {
+    const qualified = !lang ? ref.match(QUALIFIED_TITLE) : null;
+    return qualified ? { lang: qualified[1], title: qualified[2] } : { lang: lang || defaultLang, title: ref };
+  };
+
+  const addNode = (record: NodeRecord, label: string, defaultGroup: 'main' | 'sub'): string | null => {
+    const ref = parseReference((record.title ?? record.id ?? '').trim(), record.title ? record.lang?.trim() : undefined);
+    const lang = (record.lang?.trim() || ref.lang).toLowerCase();
+    const title = normalizeTitle(ref.title);
+    if (!isValidTitle(title)) {
+      report(`${label}: invalid title "${ref.title}"`);
+      return null;
+    }
+    if (!LANG_PATTERN.test(lang)) {
+      report(`${label}: invalid language "${lang}"`);
+      return null;
+    }
+    const group = record.group?.trim().toLowerCase() || defaultGroup;
+    if (group !== 'main' && group !== 'sub') {
+      report(`${label}: invalid group "${record.group}" (expected main or sub)`);
+      return null;
+    }
+
+    const id = makeNodeId(title, lang);
+    const existing = nodeMap.get(id);
+    if (existing) {
+      // The same article twice: 'main' wins
+      if (group === 'main') existing.group = 'main';
+      existing.description = existing.description || record.description || undefined;
+    } else {
+      const x = toNumber(record.x);
+      const y = toNumber(record.y);
+      nodeMap.set(id, {
+        id,
+        title,
+        lang,
+        group,
+        url: record.url?.trim() || getArticleUrl(title, lang),
+        description: record.description?.trim() || undefined,
+        source: record.source?.trim() || undefined,
+        ...(x !== undefined && y !== undefined ? { x, y, ...(toBoolean(record.pinned) ? { fx: x, fy: y } : {}) } : {}),
+      });
+    }
+    if (record.id) idMap.set(record.id.trim(), id);
+    return id;
+  };
+
+  nodeRecords.forEach((record, i) => addNode(record, `Node ${i + 1}`, 'main'));
+  const isEdgeList = nodeRecords.length === 0;
+
+  const resolve = (ref: string, label: string): string | null => {
+    const trimmed = ref.trim();
+    if (idMap.has(trimmed)) return idMap.get(trimmed)!;
+    const { title, lang } = parseReference(trimmed);
+    const id = makeNodeId(normalizeTitle(title), lang);
+    if (nodeMap.has(id)) return id;
+    if (isEdgeList) return addNode({ title: trimmed }, label, 'main');
+    report(`${label}: unknown node "${trimmed}"`);
+    return null;
+  };
+
+  const linkMap = new Map<string, WikiLink>();
+  linkRecords.forEach((record, i) => {
+    const label = `Link ${i + 1}`;
+    if (!record.source?.trim() || !record.target?.trim()) {
+      report(`${label}: missing source or target`);
+      return;
+    }
+    const sid = resolve(record.source, label);
+    const tid = resolve(record.target, label);
+    if (!sid || !tid || sid === tid) return;
+    const kind = record.kind?.trim().toLowerCase() || 'link';
+    if (!LINK_KINDS.has(kind)) {
+      report(`${label}: invalid kind "${record.kind}"`);
+      return;
+    }
+    const key = `${sid}->${tid}`;
+    if (!linkMap.has(key)) {
+      linkMap.set(key, { source: sid, target: tid, value: toNumber(record.weight) ?? 1, kind: kind as WikiLink['kind'] });
+    }
+  });
+
+  // Sources pointing outside the imported graph are dropped
+  const nodes = Array.from(nodeMap.values()).map(n => {
+    if (!n.source || n.source === 'ROOT') return n;
+    const source = idMap.get(n.source) || n.source;
+    return { ...n, source: nodeMap.has(source) ? source : undefined };
+  });
+
+  const pathIds = Array.isArray(path) ? path.map(id => idMap.get(String(id)) || String(id)) : [];
+  const validPath = pathIds.length > 1 && pathIds.every(id => nodeMap.has(id)) ? pathIds : undefined;
+
+  return { data: { nodes, links: Array.from(linkMap.values()), path: validPath }, problems };
+};
+
+const parseJSON = (text: string, defaultLang: string): ImportResult => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('NOT VALID JSON');
+  }
+  if (!parsed || !Array.isArray(parsed.nodes) || !Array.isArray(parsed.links)) {
+    throw new Error('JSON HAS NO NODES AND LINKS ARRAYS');
+  }
+  if (parsed.format === GRAPH_JSON_FORMAT && parsed.version > GRAPH_JSON_VERSION) {
+    throw new Error(`UNSUPPORTED FORMAT VERSION ${parsed.version}`);
+  }
+  const asString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  const nodes: NodeRecord[] = parsed.nodes.map((n: any) => ({
+    id: asString(n?.id),
+    title: asString(n?.title),
+    lang: asString(n?.lang),
+    group: asString(n?.group),
+    url: asString(n?.url),
+    description: asString(n?.description),
+    source: asString(n?.source),
+    x: n?.x,
+    y: n?.y,
+    // Raw GraphData (workspaces) keeps pins as fx/fy
+    pinned: n?.pinned === true || (typeof n?.fx === 'number' && typeof n?.fy === 'number'),
+  }));
+  // Our own export says "weight"; raw GraphData (workspaces) says "value"
+  const links: LinkRecord[] = parsed.links.map((l: any) => ({
+    source: typeof l?.source === 'object' ? asString(l.source?.id) : asString(l?.source),
+    target: typeof l?.target === 'object' ? asString(l.target?.id) : asString(l?.target),
+    weight: l?.weight ?? l?.value,
+    kind: asString(l?.kind),
+  }));
+  return buildGraph(nodes, links, defaultLang, parsed.path);
+};
+
+const parseGraphML = (text: string, defaultLang: string): ImportResult => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('NOT VALID XML');
+  const graph = doc.getElementsByTagName('graph')[0];
+  if (!doc.getElementsByTagName('graphml')[0] || !graph) throw new Error('NOT A GRAPHML FILE');
+
+  // <key id="d0" attr.name="title"/>: data elements refer to the id
+  const keyNames = new Map<string, string>();
+  Array.from(doc.getElementsByTagName('key')).forEach(key => {
+    keyNames.set(key.getAttribute('id') || '', (key.getAttribute('attr.name') || key.getAttribute('id') || '').toLowerCase());
+  });
+  const readData = (element: Element) => {
+    const values: Record<string, string> = {};
+    Array.from(element.children)
+      .filter(child => child.tagName === 'data')
+      .forEach(child => {
+        const name = keyNames.get(child.getAttribute('key') || '') || child.getAttribute('key') || '';
+        values[name] = child.textContent || '';
+      });
+    return values;
+  };
+
+  const nodes: NodeRecord[] = Array.from(graph.getElementsByTagName('node')).map(node => {
+    const data = readData(node);
+    return {
+      id: node.getAttribute('id') || undefined,
+      title: data.title || data.label || data.name,
+      lang: data.lang,
+      group: data.group,
+      url: data.url,
+      description: data.description,
+      source: data.source,
+      x: data.x,
+      y: data.y,
+      pinned: data.pinned,
+    };
+  });
+  const links: LinkRecord[] = Array.from(graph.getElementsByTagName('edge')).map(edge => {
+    const data = readData(edge);
+    return {
+      source: edge.getAttribute('source') || undefined,
+      target: edge.getAttribute('target') || undefined,
+      weight: data.weight ?? data.value,
+      kind: data.kind,
+    };
+  });
+  return buildGraph(nodes, links, defaultLang);
+};
+
+/**
+ * RFC 4180 CSV (quoted fields may hold commas, quotes and line breaks). Semicolon or tab
+ * separated files, as some spreadsheets save them, are detected from the header line.
+ */
+export const parseCSVRows = (text: string): string[][] => {
+  const headerLine = text.split(/\r?\n/, 1)[0];
+  const separator = [',', ';', '\t'].reduce((best, s) => headerLine.split(s).length > headerLine.split(best).length ? s : best, ',');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === '') {
+      quoted = true;
+    } else if (c === separator) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(f => f.trim() !== ''));
+};
+
+// Header names other tools use for the same columns (Gephi: Id/Label, NetworkX: source/target).
+// Gephi's edge "Type" (Directed/Undirected) is not a link kind and is left unmapped.
+const CSV_COLUMNS: Record<string, string[]> = {
+  id: ['id'],
+  title: ['title', 'label', 'name'],
+  lang: ['lang', 'language'],
+  group: ['group'],
+  url: ['url'],
+  description: ['description'],
+  source: ['source', 'from'],
+  target: ['target', 'to'],
+  x: ['x'],
+  y: ['y'],
+  pinned: ['pinned', 'fixed'],
+  weight: ['weight', 'value'],
+  kind: ['kind'],
+};
+
+const readCSV = (text: string): Array<Record<string, string>> => {
+  const [header, ...rows] = parseCSVRows(text);
+  if (!header) return [];
+  const columns = header.map(h => {
+    const name = h.trim().toLowerCase();
+    return Object.keys(CSV_COLUMNS).find(key => CSV_COLUMNS[key].includes(name)) || name;
+  });
+  return rows.map(r => Object.fromEntries(columns.map((c, i) => [c, r[i] ?? ''])));
+};
+
+// An edge list has source and target columns, whatever else it has (Gephi adds Id and Label)
+const isEdgeCSV = (text: string) => {
+  const header = readCSV(text.split(/\r?\n/, 2).join('\n'));
+  const columns = header.length > 0 ? Object.keys(header[0]) : [];
+  return columns.includes('source') && columns.includes('target');
+};
+
+/**
+ * Reads CSV files: at most one node list and one edge list, in any order. A node list
+ * without a title or id column is read as a bare list, one title per line.
+ */
+const parseCSV = (texts: string[], defaultLang: string): ImportResult => {
+  const edgeText = texts.find(isEdgeCSV);
+  const nodeText = texts.find(t => t !== edgeText);
+
+  let nodes: NodeRecord[] = [];
+  if (nodeText) {
+    const rows = readCSV(nodeText);
+    const hasTitleColumn = rows.length > 0 && ('title' in rows[0] || 'id' in rows[0]);
+    nodes = hasTitleColumn
+      ? rows.map(r => ({ ...r }))
+      : parseCSVRows(nodeText).map(r => ({ title: r[0] }));
+  }
+  const links: LinkRecord[] = edgeText ? readCSV(edgeText).map(r => ({ ...r })) : [];
+  return buildGraph(nodes, links, defaultLang);
+};
+
+export interface ImportFile {
+  name: string;
+  text: string;
+}
+
+/**
+ * Reads one JSON or GraphML file, or one or two CSV files (nodes and/or edges), into
+ * graph data. Titles without a language prefix or column go to `defaultLang`.
+ * Throws with a message for the error line when nothing usable is found.
+ */
+export const parseImportFiles = (files: ImportFile[], defaultLang: string): ImportResult => {
+  if (files.length === 0) throw new Error('NO FILE');
+  const extension = (name: string) => name.toLowerCase().split('.').pop() || '';
+  const csvFiles = files.filter(f => ['csv', 'tsv', 'txt'].includes(extension(f.name)));
+
+  let result: ImportResult;
+  if (csvFiles.length === files.length) {
+    if (files.length > 2) throw new Error('PICK ONE NODE LIST AND ONE EDGE LIST AT MOST');
+    result = parseCSV(files.map(f => f.text), defaultLang);
+  } else if (files.length > 1) {
+    throw new Error('ONLY CSV NODE AND EDGE LISTS CAN BE IMPORTED TOGETHER');
+  } else {
+    const [file] = files;
+    const ext = extension(file.name);
+    if (ext === 'json') result = parseJSON(file.text, defaultLang);
+    else if (ext === 'graphml' || ext === 'xml') result = parseGraphML(file.text, defaultLang);
+    else throw new Error(`UNSUPPORTED FILE TYPE .${ext.toUpperCase()}`);
+  }
+
+  if (result.data.nodes.length === 0) throw new Error('NO VALID NODES IN FILE');
+  return result;
+};
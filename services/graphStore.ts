@@ -0,0 +1,136 @@
+import { useState, useCallback } from 'react';
+import { GraphData, WikiNode, WikiLink } from '../types';
+
+// What a recorded change did, for the undo/redo buttons
+export type GraphOperationKind = 'expand' | 'seed' | 'delete' | 'demote' | 'clear' | 'densify' | 'path' | 'crawl' | 'import' | 'collapse' | 'reveal';
+
+export interface GraphOperation {
+  kind: GraphOperationKind;
+  label: string; // e.g. the title of the expanded node
+}
+
+// One reversible step: the graph before and after it (copies, see snapshotGraph)
+interface HistoryEntry extends GraphOperation {
+  before: GraphData;
+  after: GraphData;
+  group?: unknown;
+}
+
+interface GraphStoreState {
+  data: GraphData;
+  past: HistoryEntry[]; // Oldest first
+  future: HistoryEntry[]; // Next redo first
+}
+
+// Steps kept for undo; older ones are dropped
+const MAX_HISTORY = 50;
+
+const linkEndId = (end: string | WikiNode) => (typeof end === 'object' ? end.id : end);
+
+/**
+ * Copies a graph so later in-place changes (D3 moves nodes and swaps link ends for node
+ * objects, previews are written onto nodes) cannot alter the recorded state.
+ */
+const snapshotGraph = (data: GraphData): GraphData => ({
+  nodes: data.nodes.map(n => ({ ...n })),
+  links: data.links.map((l): WikiLink => ({ ...l, source: linkEndId(l.source), target: linkEndId(l.target) })),
+  path: data.path,
+});
+
+/**
+ * Brings back a recorded graph. Nodes that are on screen stay where they are now and keep
+ * the previews loaded since (they are written in place, after the step was recorded);
+ * the others return to where they were when the state was recorded.
+ */
+const restoreGraph = (recorded: GraphData, live: GraphData): GraphData => {
+  const liveById = new Map(live.nodes.map(n => [n.id, n]));
+  const restored = snapshotGraph(recorded);
+  restored.nodes.forEach(n => {
+    const current = liveById.get(n.id);
+    if (!current) return;
+    n.x = current.x;
+    n.y = current.y;
+    n.fx = current.fx;
+    n.fy = current.fy;
+    n.description = n.description || current.description;
+    n.extract = current.extract ?? n.extract;
+    n.thumbnail = current.thumbnail ?? n.thumbnail;
+  });
+  return restored;
+};
+
+/**
+ * Graph state with undo/redo. Structural changes go through `commit`, which records the
+ * graph before and after as one reversible step; commits sharing a `group` (e.g. every
+ * merge of one crawl) collapse into a single step. `updateInPlace` is for presentational
+ * data written onto the node objects (previews), which is not worth a step; `reset` replaces
+ * the graph and forgets its history.
+ */
+export const useGraphStore = () => {
+  const [state, setState] = useState<GraphStoreState>({ data: { nodes: [], links: [] }, past: [], future: [] });
+
+  const commit = useCallback((
+    operation: GraphOperation | ((prev: GraphData, next: GraphData) => GraphOperation),
+    updater: (prev: GraphData) => GraphData,
+    group?: unknown
+  ) => {
+    setState(s => {
+      const last = s.past[s.past.length - 1];
+      const extendsLast = group !== undefined && last?.group === group && s.future.length === 0;
+      // Recorded before the updater runs. Updaters must not modify `s.data`: StrictMode calls
+      // them twice, and a changed node would end up in `before` as well
+      const before = extendsLast ? last.before : snapshotGraph(s.data);
+
+      const next = updater(s.data);
+      if (next === s.data) return s;
+      if (extendsLast) {
+        return { data: next, past: [...s.past.slice(0, -1), { ...last, after: snapshotGraph(next) }], future: [] };
+      }
+
+      const op = typeof operation === 'function' ? operation(before, next) : operation;
+      const entry: HistoryEntry = { ...op, before, after: snapshotGraph(next), group };
+      return { data: next, past: [...s.past, entry].slice(-MAX_HISTORY), future: [] };
+    });
+  }, []);
+
+  const updateInPlace = useCallback((mutate: (data: GraphData) => void) => {
+    setState(s => {
+      mutate(s.data);
+      return s;
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(s => {
+      const entry = s.past[s.past.length - 1];
+      if (!entry) return s;
+      return { data: restoreGraph(entry.before, s.data), past: s.past.slice(0, -1), future: [entry, ...s.future] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(s => {
+      const entry = s.future[0];
+      if (!entry) return s;
+      return { data: restoreGraph(entry.after, s.data), past: [...s.past, entry], future: s.future.slice(1) };
+    });
+  }, []);
+
+  // A different graph altogether (e.g. another workspace): its history starts empty
+  const reset = useCallback((data: GraphData) => {
+    setState({ data, past: [], future: [] });
+  }, []);
+
+  const toOperation = (entry?: HistoryEntry): GraphOperation | null => (entry ? { kind: entry.kind, label: entry.label } : null);
+
+  return {
+    graphData: state.data,
+    commit,
+    updateInPlace,
+    reset,
+    undo,
+    redo,
+    nextUndo: toOperation(state.past[state.past.length - 1]),
+    nextRedo: toOperation(state.future[0]),
+  };
+};
@@ -0,0 +1,193 @@
+import { downloadFile } from './graphExport';
+
+export interface ImageExportOptions {
+  format: 'svg' | 'png';
+  area: 'viewport' | 'full'; // What is on screen, or every node at the current zoom
+  includeSubLabels: boolean; // Sub-node labels are hidden when zoomed out; this shows them all
+  scale: number; // PNG pixels per screen pixel
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+// Margin around the graph in full-bounds exports, in screen pixels
+const FULL_BOUNDS_PADDING = 40;
+// bg-stone-50, the canvas colour behind the graph
+const BACKGROUND = '#fafaf9';
+// Browsers refuse canvases beyond roughly this many pixels per side
+const MAX_CANVAS_SIDE = 16384;
+
+// Presentation properties copied from the live elements, so the file needs no stylesheet
+const INLINED_PROPERTIES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray',
+  'opacity', 'visibility', 'display', 'font-family', 'font-size', 'font-weight', 'text-anchor',
+];
+
+/**
+ * The graph's <svg> as rendered by NetworkGraph (marked with data-graph-canvas).
+ */
+const findGraphSvg = (): SVGSVGElement => {
+  const svg = document.querySelector<SVGSVGElement>('svg[data-graph-canvas]');
+  if (!svg) throw new Error('NOTHING TO EXPORT');
+  return svg;
+};
+
+const inlineStyles = (live: Element, clone: Element) => {
+  const liveElements = [live, ...Array.from(live.querySelectorAll('*'))];
+  const cloneElements = [clone, ...Array.from(clone.querySelectorAll('*'))];
+  liveElements.forEach((element, i) => {
+    const computed = getComputedStyle(element);
+    const target = cloneElements[i] as SVGElement;
+    INLINED_PROPERTIES.forEach(property => {
+      const value = computed.getPropertyValue(property);
+      if (value) target.style.setProperty(property, value);
+    });
+  });
+};
+
+const readAsDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// "U+0000-00FF, U+0131, U+04??" against the characters actually drawn
+const coversText = (unicodeRange: string, codePoints: Set<number>) =>
+  unicodeRange.split(',').some(part => {
+    const range = part.trim().replace(/^U\+/i, '');
+    const [from, to] = range.includes('?')
+      ? [range.replace(/\?/g, '0'), range.replace(/\?/g, 'F')]
+      : [range.split('-')[0], range.split('-')[1] ?? range.split('-')[0]];
+    const start = parseInt(from, 16);
+    const end = parseInt(to, 16);
+    for (const cp of codePoints) if (cp >= start && cp <= end) return true;
+    return false;
+  });
+
+let fontCssPromise: Promise<string> | null = null;
+
+// The web font stylesheets linked by index.html (Google Fonts sends CORS headers)
+const loadFontCss = (): Promise<string> => {
+  if (!fontCssPromise) {
+    const links = Array.from(document.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"][href*="fonts.googleapis.com"]'));
+    fontCssPromise = Promise.all(links.map(l => fetch(l.href).then(r => r.text()))).then(css => css.join('\n'));
+    fontCssPromise.catch(() => { fontCssPromise = null; });
+  }
+  return fontCssPromise;
+};
+
+/**
+ * @font-face rules for the fonts the labels use, with the font files embedded as data URLs:
+ * an SVG drawn as an image (PNG export, or opened elsewhere) cannot load external fonts.
+ * Only the faces whose unicode-range covers the labels' characters are included.
+ */
+const embedFonts = async (text: string, families: string[]): Promise<string> => {
+  const css = await loadFontCss();
+  const codePoints = new Set(Array.from(text).map(c => c.codePointAt(0)!));
+  const faces = (css.match(/@font-face\s*{[^}]*}/g) || ([] as string[])).filter(face => {
+    const family = face.match(/font-family:\s*['"]?([^'";]+)/)?.[1];
+    const range = face.match(/unicode-range:\s*([^;}]+)/)?.[1];
+    return family && families.includes(family) && (!range || coversText(range, codePoints));
+  });
+  const embedded = await Promise.all(faces.map(async face => {
+    const url = face.match(/url\(['"]?([^'")]+)['"]?\)/)?.[1];
+    if (!url) return face;
+    const data = await readAsDataUrl(await (await fetch(url)).blob());
+    return face.replace(url, data);
+  }));
+  return embedded.join('\n');
+};
+
+/**
+ * Copies the live graph into a standalone SVG document: styles inlined, fonts embedded,
+ * a background added, and cropped to the viewport or grown to the whole graph.
+ */
+const buildStandaloneSvg = async (options: ImageExportOptions): Promise<{ markup: string; width: number; height: number }> => {
+  const live = findGraphSvg();
+  const clone = live.cloneNode(true) as SVGSVGElement;
+  inlineStyles(live, clone);
+
+  const liveContent = live.querySelector<SVGGElement>(':scope > g');
+  const content = clone.querySelector<SVGGElement>(':scope > g');
+  if (!liveContent || !content) throw new Error('NOTHING TO EXPORT');
+
+  let width = live.clientWidth || Number(live.getAttribute('width'));
+  let height = live.clientHeight || Number(live.getAttribute('height'));
+  if (options.area === 'full') {
+    // Same zoom as on screen (labels are sized for it), but every node in frame
+    const k = liveContent.transform.baseVal.consolidate()?.matrix.a ?? 1;
+    const box = liveContent.getBBox();
+    width = Math.ceil(box.width * k + FULL_BOUNDS_PADDING * 2);
+    height = Math.ceil(box.height * k + FULL_BOUNDS_PADDING * 2);
+    content.setAttribute('transform', `translate(${FULL_BOUNDS_PADDING - box.x * k},${FULL_BOUNDS_PADDING - box.y * k}) scale(${k})`);
+  }
+
+  clone.querySelectorAll<SVGTextElement>('text.node-label[data-group="sub"]').forEach(label => {
+    if (options.includeSubLabels) label.style.setProperty('opacity', '1');
+    else if (Number(label.style.getPropertyValue('opacity') || 1) < 1) label.remove();
+  });
+
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  clone.removeAttribute('class');
+  clone.removeAttribute('data-graph-canvas');
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', BACKGROUND);
+  clone.insertBefore(background, clone.firstChild);
+
+  const labels = Array.from(clone.querySelectorAll('text')).map(t => t.textContent || '').join('');
+  // Without the fonts the export still works, with the viewer's fallback font
+  const fontCss = await embedFonts(labels, ['JetBrains Mono']).catch(err => {
+    console.warn('Could not embed fonts:', err);
+    return '';
+  });
+  if (fontCss) {
+    const style = document.createElementNS(SVG_NS, 'style');
+    style.textContent = fontCss;
+    clone.insertBefore(style, clone.firstChild);
+  }
+
+  return { markup: new XMLSerializer().serializeToString(clone), width, height };
+};
+
+const renderPng = (markup: string, width: number, height: number, scale: number) => new Promise<Blob>((resolve, reject) => {
+  const canvasWidth = Math.round(width * scale);
+  const canvasHeight = Math.round(height * scale);
+  if (canvasWidth > MAX_CANVAS_SIDE || canvasHeight > MAX_CANVAS_SIDE) {
+    reject(new Error('IMAGE TOO LARGE: LOWER THE SCALE OR EXPORT THE VIEWPORT'));
+    return;
+  }
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+  const image = new Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvasWidth;
+    canvas.height = canvasHeight;
+    const context = canvas.getContext('2d')!;
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+    URL.revokeObjectURL(url);
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG RENDERING FAILED'))), 'image/png');
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('PNG RENDERING FAILED'));
+  };
+  image.src = url;
+});
+
+/**
+ * Saves the graph as it is drawn now, as "<basename>.svg" or "<basename>.png".
+ */
+export const exportGraphImage = async (options: ImageExportOptions, basename: string) => {
+  const { markup, width, height } = await buildStandaloneSvg(options);
+  if (options.format === 'svg') {
+    downloadFile(`${basename}.svg`, markup, 'image/svg+xml');
+  } else {
+    downloadFile(`${basename}.png`, await renderPng(markup, width, height, options.scale), 'image/png');
+  }
+};
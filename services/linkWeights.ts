@@ -0,0 +1,39 @@
+import { LinkContext } from './wikitextParser';
+
+// One link occurrence, as far as weighting is concerned
+export interface LinkOccurrence {
+  target: string; // Normalized target title
+  context: LinkContext;
+  inLead: boolean; // Appears before the first section heading
+}
+
+// Infobox facts are curated and highly relevant, and a {{main}}/{{see also}} hatnote names
+// a dedicated sub-article. Navboxes list a whole topic area and are mostly boilerplate
+// shared by dozens of articles; captions and citation-like templates are incidental.
+const CONTEXT_WEIGHT: Record<LinkContext, number> = {
+  body: 1,
+  infobox: 2,
+  hatnote: 1.5,
+  template: 0.75,
+  caption: 0.75,
+  navbox: 0.25,
+};
+
+// The lead summarizes the article, so links there are worth double
+const LEAD_MULTIPLIER = 2;
+
+/**
+ * Scores every target by summing the weight of each of its occurrences.
+ * A target linked once in the body scores 1, which is also the weight of unscored links.
+ * Returned in first-occurrence order.
+ */
+export const scoreLinkOccurrences = (occurrences: LinkOccurrence[]): Map<string, number> => {
+  const scores = new Map<string, number>();
+  occurrences.forEach(o => {
+    const weight = CONTEXT_WEIGHT[o.context] * (o.inLead ? LEAD_MULTIPLIER : 1);
+    scores.set(o.target, (scores.get(o.target) || 0) + weight);
+  });
+  // Keep the values readable in exports/tooltips
+  scores.forEach((score, target) => scores.set(target, Math.round(score * 100) / 100));
+  return scores;
+};
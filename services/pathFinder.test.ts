@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { findShortestPath } from './pathFinder';
+import { requestScheduler } from './requestScheduler';
+import { GraphData, WikiDataSource, WikiNode } from '../types';
+
+// A small wiki: each article and the articles it links to. Normandy has more backlinks
+// than Paris has links, so the search grows forward from Paris, through the red link first.
+const WIKI: Record<string, string[]> = {
+  Paris: ['Red link', 'Seine', 'France'],
+  Seine: ['Le Havre'],
+  France: ['Europe'],
+  'Le Havre': ['Normandy'],
+  Rouen: ['Normandy'],
+  Caen: ['Normandy'],
+  Bayeux: ['Normandy'],
+  Normandy: [],
+  Europe: [],
+};
+
+const node = (title: string): WikiNode => ({ id: `en:${title}`, title, lang: 'en', group: 'sub', url: '' });
+
+/**
+ * Serves WIKI as a data source. Every page costs one scheduler request (a data: URL),
+ * `broken` pages fail like a network error and `empty` pages come back without nodes.
+ */
+const createSource = ({ broken = [] as string[], empty = [] as string[] } = {}): WikiDataSource => {
+  const cluster = async (title: string, neighbours: string[], signal?: AbortSignal): Promise<GraphData> => {
+    await requestScheduler.fetchJson('data:application/json,{}', { signal });
+    if (broken.includes(title)) throw new Error('Failed to fetch from wiki');
+    if (empty.includes(title)) return { nodes: [], links: [] };
+    if (!WIKI[title]) throw new Error('Page not found');
+    return {
+      nodes: [node(title), ...neighbours.map(node)],
+      links: neighbours.map(n => ({ source: `en:${title}`, target: `en:${n}`, value: 1 })),
+    };
+  };
+  return {
+    id: 'wikipedia',
+    label: 'Test wiki',
+    supportsLanguages: false,
+    defaultLang: 'en',
+    fetchLinks: (title, _max, _lang, signal) => cluster(title, WIKI[title] || [], signal),
+    fetchBacklinks: (title, _max, _lang, signal) =>
+      cluster(title, Object.keys(WIKI).filter(t => WIKI[t].includes(title)), signal),
+    fetchLangLinks: async () => [],
+  };
+};
+
+const titles = (path: WikiNode[] | null) => path?.map(n => n.title) ?? null;
+
+describe('findShortestPath', () => {
+  it('finds the shortest chain of links, past a red link', async () => {
+    const path = await findShortestPath(createSource(), 'Paris', 'Normandy', 'en', { maxDepth: 4, maxRequests: 50 });
+    expect(titles(path)).toEqual(['Paris', 'Seine', 'Le Havre', 'Normandy']);
+  });
+
+  it('treats an empty cluster like a missing page', async () => {
+    const path = await findShortestPath(createSource({ empty: ['Red link'] }), 'Paris', 'Normandy', 'en', { maxDepth: 4, maxRequests: 50 });
+    expect(titles(path)).toEqual(['Paris', 'Seine', 'Le Havre', 'Normandy']);
+  });
+
+  it('passes other failures on instead of reporting no path', async () => {
+    const search = findShortestPath(createSource({ broken: ['Red link'] }), 'Paris', 'Normandy', 'en', { maxDepth: 4, maxRequests: 50 });
+    await expect(search).rejects.toThrow('Failed to fetch from wiki');
+  });
+
+  it('reports an end that does not exist', async () => {
+    const search = findShortestPath(createSource({ empty: ['Paris'] }), 'Paris', 'Normandy', 'en', { maxDepth: 4, maxRequests: 50 });
+    await expect(search).rejects.toThrow('Page not found');
+  });
+
+  it('counts requests against the budget', async () => {
+    const progress: number[] = [];
+    const search = findShortestPath(createSource(), 'Paris', 'Normandy', 'en', {
+      maxDepth: 4,
+      maxRequests: 2,
+      onProgress: p => progress.push(p.requests),
+    });
+    await expect(search).rejects.toThrow('PATH SEARCH GAVE UP AFTER 2 REQUESTS');
+    expect(progress[0]).toBe(2);
+  });
+});
@@ -0,0 +1,155 @@
+import { WikiDataSource, WikiNode, GraphData } from '../types';
+import { requestScheduler } from './requestScheduler';
+
+// Links considered per page. Clusters are ordered strongest first, so very long
+// pages only lose their weakest links. Resolving redirects takes one API request per
+// 50 links, so this also bounds the requests one page costs.
+const PATH_LINKS_PER_PAGE = 200;
+
+// Errors that concern one page only; the search carries on without it. Anything else
+// (network failures, rate limits that outlasted the retries) ends the search.
+const PAGE_ERRORS = new Set(['Page not found', 'Page did not exist at that date', 'Not available offline']);
+
+export interface PathSearchProgress {
+  requests: number; // API requests made so far
+  depth: number; // Length of the paths explored so far (forward + backward)
+}
+
+interface PathSearchOptions {
+  maxDepth: number; // Longest path (in links) worth looking for
+  maxRequests: number; // API requests allowed, counting both directions (cached pages are free)
+  signal?: AbortSignal;
+  onProgress?: (progress: PathSearchProgress) => void;
+}
+
+// One direction of the search: how each reached title was reached
+interface SearchSide {
+  frontier: string[];
+  depth: number;
+  via: Map<string, string | null>; // Title -> the title it was reached from (null for the start)
+  nodes: Map<string, WikiNode>;
+}
+
+const createSide = (start: WikiNode): SearchSide => ({
+  frontier: [start.title],
+  depth: 0,
+  via: new Map([[start.title, null]]),
+  nodes: new Map([[start.title, start]]),
+});
+
+// Walks `via` back to the start of a side: [meeting, ..., start]
+const chainOf = (side: SearchSide, title: string): WikiNode[] => {
+  const chain: WikiNode[] = [];
+  for (let current: string | null = title; current !== null; current = side.via.get(current) ?? null) {
+    chain.push(side.nodes.get(current)!);
+  }
+  return chain;
+};
+
+/**
+ * Finds a shortest chain of links from one article to another with a bidirectional
+ * breadth-first search: outgoing links grow the search from `from`, backlinks grow it
+ * backwards from `to`, always expanding the smaller frontier. Both articles must be in
+ * the same language edition.
+ * Returns the articles along the path (both ends included), or null if none exists
+ * within `maxDepth` links. Throws if the request budget runs out first; it is checked
+ * before each page, so the last page may go a few requests over.
+ */
+export const findShortestPath = async (
+  source: WikiDataSource,
+  from: string,
+  to: string,
+  lang: string,
+  { maxDepth, maxRequests, signal, onProgress }: PathSearchOptions
+): Promise<WikiNode[] | null> => {
+  // A signal of its own, so the scheduler counts exactly this search's requests
+  const search = new AbortController();
+  const onAbort = () => search.abort();
+  if (signal?.aborted) search.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    return await searchPath(source, from, to, lang, maxDepth, maxRequests, search.signal, onProgress);
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+const searchPath = async (
+  source: WikiDataSource,
+  from: string,
+  to: string,
+  lang: string,
+  maxDepth: number,
+  maxRequests: number,
+  signal: AbortSignal,
+  onProgress?: (progress: PathSearchProgress) => void
+): Promise<WikiNode[] | null> => {
+  const requests = () => requestScheduler.requestCount(signal);
+  const fetchNeighbours = async (title: string, direction: 'out' | 'in'): Promise<GraphData> => {
+    if (requests() >= maxRequests) throw new Error(`PATH SEARCH GAVE UP AFTER ${maxRequests} REQUESTS`);
+    const cluster = direction === 'out'
+      ? await source.fetchLinks(title, PATH_LINKS_PER_PAGE, lang, signal)
+      : await source.fetchBacklinks(title, PATH_LINKS_PER_PAGE, lang, signal);
+    if (cluster.nodes.length === 0) throw new Error('Page not found');
+    return cluster;
+  };
+
+  // The first fetch of each end also resolves redirects to the canonical titles
+  const start = await fetchNeighbours(from, 'out');
+  const goal = await fetchNeighbours(to, 'in');
+  const forward = createSide(start.nodes[0]);
+  const backward = createSide(goal.nodes[0]);
+  if (forward.via.has(goal.nodes[0].title)) return [start.nodes[0]];
+
+  // Adds a fetched cluster's children one level further out; returns a title both sides reached
+  const absorb = (side: SearchSide, other: SearchSide, parent: string, cluster: GraphData, next: string[]): string | null => {
+    for (const child of cluster.nodes.slice(1)) {
+      if (side.via.has(child.title)) continue;
+      side.via.set(child.title, parent);
+      side.nodes.set(child.title, child);
+      if (other.via.has(child.title)) return child.title;
+      next.push(child.title);
+    }
+    return null;
+  };
+
+  // Both start clusters are already fetched, so the first level of each side is free
+  const forwardNext: string[] = [];
+  const backwardNext: string[] = [];
+  let meeting = absorb(forward, backward, forward.frontier[0], start, forwardNext);
+  forward.frontier = forwardNext;
+  forward.depth = 1;
+  if (!meeting && maxDepth >= 2) {
+    meeting = absorb(backward, forward, backward.frontier[0], goal, backwardNext);
+    backward.frontier = backwardNext;
+    backward.depth = 1;
+  }
+
+  while (!meeting && forward.depth + backward.depth < maxDepth) {
+    onProgress?.({ requests: requests(), depth: forward.depth + backward.depth });
+    const side = forward.frontier.length <= backward.frontier.length ? forward : backward;
+    const other = side === forward ? backward : forward;
+    if (side.frontier.length === 0) return null; // Dead end: no more pages to reach
+
+    const next: string[] = [];
+    for (const title of side.frontier) {
+      let cluster: GraphData;
+      try {
+        cluster = await fetchNeighbours(title, side === forward ? 'out' : 'in');
+      } catch (err) {
+        // A red link is a dead end, not the end of the search
+        if (err instanceof Error && PAGE_ERRORS.has(err.message) && !signal.aborted) continue;
+        throw err;
+      }
+      meeting = absorb(side, other, title, cluster, next);
+      if (meeting) break;
+    }
+    side.frontier = next;
+    side.depth++;
+  }
+
+  if (!meeting) return null;
+  onProgress?.({ requests: requests(), depth: forward.depth + backward.depth });
+  // Forward chain runs meeting -> start, backward chain meeting -> goal
+  return [...chainOf(forward, meeting).reverse(), ...chainOf(backward, meeting).slice(1)];
+};
@@ -0,0 +1,144 @@
+import { GraphData, WikiNode, ExpansionMode } from '../types';
+
+// One fetched article and the directions its links were fetched in
+export interface PermalinkStep {
+  id: string; // Node id
+  mode: ExpansionMode;
+  langlinkFrom?: string; // Node whose interlanguage link led here ("expand in language")
+}
+
+/**
+ * What a shared link rebuilds: the searched articles, then the expansions in an order
+ * in which each expanded node is already on screen, plus the view settings.
+ */
+export interface Permalink {
+  seeds: PermalinkStep[];
+  expanded: PermalinkStep[];
+  linkLimit: number;
+  showSubNodes: boolean;
+  focusedId: string | null;
+}
+
+const MODE_SUFFIX: Record<ExpansionMode, string> = { out: '', in: '~in', both: '~both' };
+
+// Ids stay readable: "en:Albert_Einstein" rather than "en%3AAlbert%20Einstein".
+// Titles never contain "|", and "~" is escaped, so both are safe separators.
+const encodeId = (id: string) => encodeURIComponent(id.replace(/ /g, '_'))
+  .replace(/%3A/gi, ':')
+  .replace(/%2C/gi, ',')
+  .replace(/~/g, '%7E');
+const decodeId = (part: string) => {
+  try {
+    return decodeURIComponent(part).replace(/_/g, ' ');
+  } catch {
+    return null; // Mangled escape sequence
+  }
+};
+
+const LANGLINK_PREFIX = 'from:';
+
+const encodeSteps = (steps: PermalinkStep[]) => steps
+  .map(s => encodeId(s.id) + MODE_SUFFIX[s.mode] + (s.langlinkFrom ? `~${LANGLINK_PREFIX}${encodeId(s.langlinkFrom)}` : ''))
+  .join('|');
+const decodeSteps = (value?: string): PermalinkStep[] => (value ? value.split('|') : []).flatMap(part => {
+  const [raw, ...suffixes] = part.split('~');
+  const id = raw ? decodeId(raw) : null;
+  const mode: ExpansionMode = suffixes.includes('in') ? 'in' : suffixes.includes('both') ? 'both' : 'out';
+  const from = suffixes.find(s => s.startsWith(LANGLINK_PREFIX));
+  const langlinkFrom = from ? decodeId(from.slice(LANGLINK_PREFIX.length)) : null;
+  if (!id || !id.includes(':')) return [];
+  return [{ id, mode, ...(langlinkFrom?.includes(':') ? { langlinkFrom } : {}) }];
+});
+
+/**
+ * Hash for a permalink, e.g. "seeds=en:Paris|en:Rome&expand=en:Seine~in|fr:Paris~from:en:Paris&limit=150&focus=en:Paris".
+ * An empty graph gives an empty string.
+ */
+export const encodePermalink = (link: Permalink): string => {
+  if (link.seeds.length === 0 && link.expanded.length === 0) return '';
+  const parts = [`seeds=${encodeSteps(link.seeds)}`];
+  if (link.expanded.length > 0) parts.push(`expand=${encodeSteps(link.expanded)}`);
+  parts.push(`limit=${link.linkLimit === Infinity ? 'all' : link.linkLimit}`);
+  if (!link.showSubNodes) parts.push('subs=0');
+  if (link.focusedId) parts.push(`focus=${encodeId(link.focusedId)}`);
+  return parts.join('&');
+};
+
+/**
+ * Reads a location hash written by encodePermalink. Anything else gives null.
+ */
+export const decodePermalink = (hash: string, defaults: { linkLimit: number }): Permalink | null => {
+  const params = new Map<string, string>();
+  hash.replace(/^#/, '').split('&').forEach(part => {
+    const eq = part.indexOf('=');
+    if (eq > 0) params.set(part.slice(0, eq), part.slice(eq + 1));
+  });
+  if (!params.has('seeds')) return null;
+
+  const limitParam = params.get('limit');
+  const limit = limitParam === 'all' ? Infinity : Number(limitParam);
+  const focusParam = params.get('focus');
+  return {
+    seeds: decodeSteps(params.get('seeds')),
+    expanded: decodeSteps(params.get('expand')),
+    linkLimit: limit === Infinity || (Number.isFinite(limit) && limit > 0) ? limit : defaults.linkLimit,
+    showSubNodes: params.get('subs') !== '0',
+    focusedId: focusParam ? decodeId(focusParam) : null,
+  };
+};
+
+const linkEndId = (end: string | WikiNode) => (typeof end === 'object' ? end.id : end);
+
+/**
+ * Describes a graph as a permalink. A main node counts as expanded when the node it was
+ * found from is itself reached first; every other main node is a seed. Main nodes at the
+ * end of a 'langlink' keep the node it starts from.
+ */
+export const permalinkFromGraph = (data: GraphData, settings: Omit<Permalink, 'seeds' | 'expanded'>): Permalink => {
+  const mainNodes = data.nodes.filter(n => n.group === 'main');
+  const mainIds = new Set(mainNodes.map(n => n.id));
+  const langlinkFrom = new Map(data.links
+    .filter(l => l.kind === 'langlink' && mainIds.has(linkEndId(l.source)))
+    .map(l => [linkEndId(l.target), linkEndId(l.source)]));
+  const step = (n: WikiNode): PermalinkStep => ({
+    id: n.id,
+    mode: n.expansion || 'out',
+    ...(langlinkFrom.has(n.id) ? { langlinkFrom: langlinkFrom.get(n.id) } : {}),
+  });
+  const seeds = mainNodes.filter(n => !n.source || !mainIds.has(n.source));
+
+  // Breadth-first from the seeds, so replaying in order always finds the node to expand
+  const reached = new Set(seeds.map(n => n.id));
+  const expanded: PermalinkStep[] = [];
+  let frontier = mainNodes.filter(n => !reached.has(n.id) && reached.has(n.source!));
+  while (frontier.length > 0) {
+    frontier.forEach(n => {
+      reached.add(n.id);
+      expanded.push(step(n));
+    });
+    frontier = mainNodes.filter(n => !reached.has(n.id) && reached.has(n.source!));
+  }
+  // Cycles of sources (after merges) have no entry point; their nodes become seeds
+  const orphans = mainNodes.filter(n => !reached.has(n.id));
+
+  return { ...settings, seeds: [...seeds, ...orphans].map(step), expanded };
+};
+
+/**
+ * Same main nodes, fetched in the same directions and joined by the same langlinks
+ * (settings and focus aside).
+ */
+export const sameExploration = (a: Permalink | null, b: Permalink | null): boolean => {
+  const key = (link: Permalink | null) => link
+    ? [...link.seeds, ...link.expanded].map(s => `${s.id}~${s.mode}~${s.langlinkFrom || ''}`).sort().join('|')
+    : '';
+  return key(a) === key(b);
+};
+
+/**
+ * Splits a node id into the article it stands for.
+ */
+export const pageFromId = (id: string): { lang: string; title: string } => {
+  const colon = id.indexOf(':');
+  return { lang: id.slice(0, colon), title: id.slice(colon + 1) };
+};
@@ -0,0 +1,222 @@
+// Identifies the app to wiki operators. Browsers do not let scripts set User-Agent,
+// so Wikimedia reads Api-User-Agent instead (it is allowed by their CORS policy).
+export const API_USER_AGENT = 'Wikicluster/1.12 (https://changz12.com/)';
+
+// Transient HTTP failures worth retrying
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+
+// API-level errors that mean "come back later": replication lag and per-client rate limits
+const RETRYABLE_API_ERRORS = new Set(['maxlag', 'ratelimited']);
+
+// Sent as `maxlag` with API queries: the wiki refuses them while its replicas lag this many
+// seconds behind, so automated clients back off when the servers are busy (MediaWiki etiquette)
+export const MAX_LAG_SECONDS = 5;
+
+export type RequestState = 'queued' | 'running' | 'waiting'; // 'waiting' = backing off before a retry
+
+// A request as shown in the UI
+export interface ScheduledRequest {
+  id: number;
+  label: string;
+  state: RequestState;
+  attempt: number; // 0 for the first try
+  retryAt?: number; // Epoch ms, while waiting
+}
+
+interface SchedulerOptions {
+  concurrency: number; // Requests in flight at once
+  maxRetries: number;
+  baseDelay: number; // ms, doubled on every retry
+  maxDelay: number; // ms, cap for the computed backoff (a server's Retry-After is always honoured)
+}
+
+export interface RequestScheduler {
+  fetchJson: (url: string, options?: { signal?: AbortSignal; label?: string }) => Promise<any>;
+  cancel: (id: number) => void;
+  cancelAll: () => void;
+  getRequests: () => ScheduledRequest[]; // Stable between changes (usable with useSyncExternalStore)
+  requestCount: (signal: AbortSignal) => number; // Requests made with this signal so far, retries not included
+  subscribe: (listener: () => void) => () => void;
+}
+
+interface Task {
+  info: ScheduledRequest;
+  url: string;
+  controller: AbortController;
+  resolve: (data: any) => void;
+  reject: (err: unknown) => void;
+  detach: () => void; // Stops listening to the caller's signal
+}
+
+const createAbortError = () => new DOMException('Request cancelled', 'AbortError');
+
+export const isAbortError = (err: unknown): boolean => err instanceof DOMException && err.name === 'AbortError';
+
+/**
+ * Parses a Retry-After header (delay in seconds, or an HTTP date) into milliseconds.
+ */
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+type Attempt = { data: any } | { retryAfter: number | null; reason: string };
+
+/**
+ * Queues JSON GET requests behind a concurrency limit.
+ * - Every request can be cancelled, by the caller's AbortSignal or through `cancel`.
+ * - 429/5xx responses, network failures and `maxlag`/`ratelimited` API errors are retried with
+ *   exponential backoff (with jitter); a Retry-After header, when present, sets the delay instead
+ *   (a `maxlag` error without one waits MAX_LAG_SECONDS).
+ * - A retrying request keeps its slot, so a rate-limited wiki is not hit by the next request meanwhile.
+ */
+export const createRequestScheduler = (options: SchedulerOptions): RequestScheduler => {
+  const queue: Task[] = [];
+  const tasks = new Map<number, Task>();
+  const listeners = new Set<() => void>();
+  let running = 0;
+  let nextId = 1;
+  let snapshot: ScheduledRequest[] = [];
+  // Requests per caller signal, so one operation (e.g. a path search) can budget its own
+  const counts = new WeakMap<AbortSignal, number>();
+
+  const notify = () => {
+    snapshot = Array.from(tasks.values()).map(t => ({ ...t.info }));
+    listeners.forEach(l => l());
+  };
+
+  const attempt = async (task: Task): Promise<Attempt> => {
+    let response: Response;
+    try {
+      response = await fetch(task.url, {
+        signal: task.controller.signal,
+        headers: { 'Api-User-Agent': API_USER_AGENT },
+      });
+    } catch (err) {
+      if (task.controller.signal.aborted) throw createAbortError();
+      return { retryAfter: null, reason: 'Failed to fetch from wiki' }; // Network error
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    if (RETRYABLE_STATUS.has(response.status)) return { retryAfter, reason: 'Failed to fetch from wiki' };
+    if (!response.ok) throw new Error('Failed to fetch from wiki');
+
+    const data: any = await response.json();
+    if (data.error && RETRYABLE_API_ERRORS.has(data.error.code)) {
+      // A lagged wiki normally sends Retry-After too; without it, wait as long as the allowed lag
+      const lagDelay = data.error.code === 'maxlag' ? MAX_LAG_SECONDS * 1000 : null;
+      return { retryAfter: retryAfter ?? lagDelay, reason: data.error.info };
+    }
+    return { data };
+  };
+
+  const run = async (task: Task) => {
+    running++;
+    task.info.state = 'running';
+    notify();
+
+    try {
+      for (;;) {
+        const result = await attempt(task);
+        if ('data' in result) {
+          task.resolve(result.data);
+          break;
+        }
+        if (task.info.attempt >= options.maxRetries) throw new Error(result.reason);
+
+        const backoff = Math.min(options.maxDelay, options.baseDelay * 2 ** task.info.attempt) * (0.5 + Math.random() / 2);
+        const delay = result.retryAfter ?? backoff;
+        task.info = { ...task.info, state: 'waiting', attempt: task.info.attempt + 1, retryAt: Date.now() + delay };
+        notify();
+        await sleep(delay, task.controller.signal);
+        task.info = { ...task.info, state: 'running', retryAt: undefined };
+        notify();
+      }
+    } catch (err) {
+      task.reject(err);
+    } finally {
+      running--;
+      task.detach();
+      tasks.delete(task.info.id);
+      notify();
+      pump();
+    }
+  };
+
+  const pump = () => {
+    while (running < options.concurrency && queue.length > 0) run(queue.shift()!);
+  };
+
+  const cancel = (id: number) => {
+    const task = tasks.get(id);
+    if (!task) return;
+    const queuedAt = queue.indexOf(task);
+    if (queuedAt !== -1) {
+      // Never started: settle it here, nothing else will
+      queue.splice(queuedAt, 1);
+      task.detach();
+      tasks.delete(id);
+      task.reject(createAbortError());
+      notify();
+    } else {
+      task.controller.abort();
+    }
+  };
+
+  return {
+    fetchJson: (url, { signal, label } = {}) => new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+      if (signal) counts.set(signal, (counts.get(signal) || 0) + 1);
+      const onAbort = () => cancel(task.info.id);
+      const task: Task = {
+        info: { id: nextId++, label: label || url, state: 'queued', attempt: 0 },
+        url,
+        controller: new AbortController(),
+        resolve,
+        reject,
+        // Long-lived signals (a crawl, a path search) would otherwise collect one listener per request
+        detach: () => signal?.removeEventListener('abort', onAbort),
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      tasks.set(task.info.id, task);
+      queue.push(task);
+      notify();
+      pump();
+    }),
+    cancel,
+    cancelAll: () => Array.from(tasks.keys()).forEach(cancel),
+    getRequests: () => snapshot,
+    requestCount: (signal) => counts.get(signal) || 0,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+// Shared by every API source. Wikimedia asks clients to keep parallel requests low.
+export const requestScheduler = createRequestScheduler({
+  concurrency: 4,
+  maxRetries: 4,
+  baseDelay: 1000,
+  maxDelay: 30000,
+});
@@ -1,7 +1,52 @@
 
-import { WikiAPIResponse, GraphData, WikiNode, WikiLink } from '../types';
+import { WikiAPIResponse, GraphData, WikiNode, WikiLink, WikiLanguage, LangLink, MediaWikiSite, PageSummary, TitleLink, SearchSuggestion, WikiPageRef } from '../types';
+import { LinkOccurrence, scoreLinkOccurrences } from './linkWeights';
+import { extractWikitextLinks, sliceSection } from './wikitextParser';
+import { requestScheduler, MAX_LAG_SECONDS } from './requestScheduler';
 
-const WIKI_API_URL = 'https://en.wikipedia.org/w/api.php';
+export const DEFAULT_LANG = 'en';
+
+// Language editions offered in the selector. Any other valid code still works through the API helpers.
+export const WIKI_LANGUAGES: WikiLanguage[] = [
+  { code: 'en', name: 'English' },
+  { code: 'de', name: 'Deutsch' },
+  { code: 'fr', name: 'Français' },
+  { code: 'ja', name: '日本語' },
+  { code: 'es', name: 'Español' },
+  { code: 'it', name: 'Italiano' },
+  { code: 'pt', name: 'Português' },
+  { code: 'ru', name: 'Русский' },
+  { code: 'zh', name: '中文' },
+  { code: 'ko', name: '한국어' },
+  { code: 'nl', name: 'Nederlands' },
+  { code: 'pl', name: 'Polski' },
+  { code: 'sv', name: 'Svenska' },
+  { code: 'uk', name: 'Українська' },
+  { code: 'ar', name: 'العربية' },
+  { code: 'fa', name: 'فارسی' },
+  { code: 'he', name: 'עברית' },
+  { code: 'tr', name: 'Türkçe' },
+  { code: 'vi', name: 'Tiếng Việt' },
+  { code: 'id', name: 'Bahasa Indonesia' },
+];
+
+/**
+ * Builds the MediaWiki API endpoint for a language edition.
+ * Example: 'de' -> https://de.wikipedia.org/w/api.php
+ */
+export const getWikiApiUrl = (lang: string = DEFAULT_LANG): string => `https://${lang}.wikipedia.org/w/api.php`;
+
+/**
+ * Builds the public article URL for a title in a language edition.
+ */
+export const getArticleUrl = (title: string, lang: string = DEFAULT_LANG): string =>
+  `https://${lang}.wikipedia.org/wiki/${encodeURIComponent(title.replace(/ /g, '_'))}`;
+
+/**
+ * Builds the graph identifier for an article. The language prefix keeps
+ * "Berlin" on en.wikipedia and "Berlin" on de.wikipedia as separate nodes.
+ */
+export const makeNodeId = (title: string, lang: string = DEFAULT_LANG): string => `${lang}:${title}`;
 
 // Namespaces to exclude to ensure we only get actual articles (NS 0 mostly)
 const EXCLUDED_NAMESPACES = new Set([
@@ -10,29 +55,76 @@ const EXCLUDED_NAMESPACES = new Set([
   'TimedText', 'Module', 'Special', 'Media'
 ]);
 
+// Pasted URLs are not always properly escaped: a raw '%' (e.g. "100%_Wolf") is kept as is
+const safeDecode = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
 /**
- * Extracts the title from a standard Wikipedia URL.
- * Example: https://en.wikipedia.org/wiki/React_(software) -> React (software)
+ * Extracts the page a wiki URL points at. Understood forms:
+ * - https://en.wikipedia.org/wiki/React_(software)
+ * - https://en.m.wikipedia.org/wiki/React_(software) (mobile)
+ * - https://de.wikipedia.org/w/index.php?title=Berlin&oldid=123
+ * A `#Section` anchor is kept as `section`. `lang` is only set for Wikipedia hosts;
+ * other hosts (e.g. a custom MediaWiki) just yield the title.
  */
-export const extractTitleFromUrl = (url: string): string | null => {
+export const extractTitleFromUrl = (url: string): WikiPageRef | null => {
   try {
     const urlObj = new URL(url);
-    if (!urlObj.hostname.includes('wikipedia.org')) return null;
-    
-    // Path usually /wiki/Title
-    const parts = urlObj.pathname.split('/');
-    const titlePart = parts[parts.length - 1];
-    return decodeURIComponent(titlePart);
+
+    let title: string | null = urlObj.searchParams.get('title');
+    if (!title) {
+      // Path usually /wiki/Title; titles may contain slashes (AC/DC)
+      const match = urlObj.pathname.match(/\/wiki\/(.+)$/);
+      if (!match) return null;
+      title = safeDecode(match[1]);
+    }
+    title = title.replace(/_/g, ' ').trim();
+    if (!title) return null;
+
+    // xx.wikipedia.org or xx.m.wikipedia.org
+    const host = urlObj.hostname.match(/^([a-z][a-z0-9-]*)(?:\.m)?\.wikipedia\.org$/i);
+    const lang = host && host[1] !== 'www' ? host[1].toLowerCase() : undefined;
+    const section = urlObj.hash ? safeDecode(urlObj.hash.slice(1)).replace(/_/g, ' ').trim() : '';
+
+    return { title, lang, section: section || undefined };
   } catch (e) {
     return null;
   }
 };
 
+/**
+ * Splits a `Title#Section` reference. Titles cannot contain '#', so the anchor is unambiguous.
+ */
+export const splitSectionAnchor = (title: string): { title: string; section?: string } => {
+  const hash = title.indexOf('#');
+  if (hash === -1) return { title };
+  const section = title.slice(hash + 1).replace(/_/g, ' ').trim();
+  return { title: title.slice(0, hash), section: section || undefined };
+};
+
+/**
+ * Parses one line of search input: a wiki URL (see extractTitleFromUrl) or a plain title,
+ * either optionally with a `#Section` anchor. Returns null for empty input.
+ */
+export const parseSearchInput = (input: string): WikiPageRef | null => {
+  const text = input.trim();
+  if (!text) return null;
+  if (/^https?:\/\//i.test(text)) return extractTitleFromUrl(text);
+
+  const { title, section } = splitSectionAnchor(text.replace(/_/g, ' '));
+  return title.trim() ? { title: title.trim(), section } : null;
+};
+
 /**
  * Helper to normalize wiki titles for deduplication.
  * Replaces underscores with spaces and capitalizes the first letter.
  */
-const normalizeTitle = (title: string): string => {
+export const normalizeTitle = (title: string): string => {
   let t = title.trim().replace(/_/g, ' ');
   if (t.length > 0) {
     t = t.charAt(0).toUpperCase() + t.slice(1);
@@ -58,30 +150,374 @@ const isExcludedNamespace = (title: string): boolean => {
 };
 
 /**
- * Fetches links for a specific Wikipedia page title.
- * 1. Calls MediaWiki API.
- * 2. Parses the content for [[Link]] syntax to ensure connection context.
- * 3. Returns GraphData with a central 'main' node and satellite 'sub' nodes.
+ * Returns the MediaWiki site (API endpoint + article URLs) of a Wikipedia language edition.
+ */
+export const getWikipediaSite = (lang: string = DEFAULT_LANG): MediaWikiSite => ({
+  apiUrl: getWikiApiUrl(lang),
+  articleUrl: (title: string) => getArticleUrl(title, lang),
+});
+
+/**
+ * Sends a query to a MediaWiki API endpoint through the shared request scheduler
+ * (concurrency limit, retries, cancellation) and unwraps API-level errors.
+ */
+const queryMediaWiki = async (site: MediaWikiSite, params: Record<string, string>, signal?: AbortSignal): Promise<any> => {
+  const query = new URLSearchParams({ ...params, format: 'json', origin: '*', maxlag: String(MAX_LAG_SECONDS) });
+  // Shown in the request queue, e.g. "revisions|description: Physics"
+  const subject = params.titles || params.bltitle || params.gpssearch || params.cmtitle || '';
+  const label = `${params.prop || params.list || params.action}: ${subject.split('|')[0]}${subject.includes('|') ? ' +' : ''}`;
+  const data: any = await requestScheduler.fetchJson(`${site.apiUrl}?${query.toString()}`, { signal, label });
+
+  if (data.error) throw new Error(data.error.info);
+  return data;
+};
+
+/**
+ * Constructs a graph node for an article.
+ */
+export const createNode = (
+  title: string,
+  group: WikiNode['group'],
+  lang: string,
+  articleUrl: (title: string) => string,
+  description?: string
+): WikiNode => ({
+  id: makeNodeId(title, lang),
+  title,
+  lang,
+  group,
+  url: articleUrl(title),
+  description,
+});
+
+/**
+ * Builds a cluster from a page's raw wikitext.
+ * Parses the content for [[Link]] syntax to ensure connection context and returns
+ * GraphData with a central 'main' node and satellite 'sub' nodes.
+ * With `section`, only the links of that section (and its subsections) are used.
+ * Shared by every data source that has access to wikitext (live API or local dump).
+ */
+export const buildClusterFromWikitext = (
+  page: { title: string; description?: string; content: string; section?: string },
+  maxLinks: number,
+  lang: string,
+  articleUrl: (title: string) => string
+): GraphData => {
+  const canonicalTitle = page.title;
+  const content = page.section ? sliceSection(page.content, page.section) : page.content;
+  if (content === null) throw new Error('Section not found');
+
+  if (!content) {
+      return { nodes: [], links: [] };
+  }
+
+  // --- EXTRACT LINK OCCURRENCES ---
+  // Parsing raw Wikitext source code (see wikitextParser) is often more reliable for finding
+  // contextually relevant links than the 'links' prop of the API, which also lists navbox and
+  // citation links. Every occurrence is kept so repeated, lead and infobox links weigh more.
+  const occurrences: LinkOccurrence[] = [];
+  extractWikitextLinks(content).forEach(link => {
+      const normalizedTarget = normalizeTitle(link.target);
+      // Avoid self-links and unwanted namespaces
+      if (normalizedTarget && normalizedTarget !== canonicalTitle && !isExcludedNamespace(normalizedTarget)) {
+          occurrences.push({ target: normalizedTarget, context: link.context, inLead: link.section === null });
+      }
+  });
+
+  // Strongest relationships first, so the link limit drops the weakest ones
+  const scores = scoreLinkOccurrences(occurrences);
+  let finalLinkList = Array.from(scores.keys()).sort((a, b) => scores.get(b)! - scores.get(a)!);
+  if (maxLinks !== Infinity) {
+    finalLinkList = finalLinkList.slice(0, maxLinks);
+  }
+
+  // Construct the central node (Main Node)
+  const centerNode = createNode(canonicalTitle, 'main', lang, articleUrl, page.description);
+
+  // Construct child nodes (Sub Nodes)
+  const childNodes: WikiNode[] = finalLinkList.map(linkTitle => createNode(linkTitle, 'sub', lang, articleUrl));
+
+  // Create links from center to children, weighted by how the article references them
+  const links: WikiLink[] = childNodes.map(child => ({
+    source: centerNode.id,
+    target: child.id,
+    value: scores.get(child.title) || 1
+  }));
+
+  return {
+    nodes: [centerNode, ...childNodes],
+    links: links
+  };
+};
+
+// The API accepts at most 50 titles per query for regular clients
+const TITLE_BATCH_SIZE = 50;
+
+/**
+ * Reads the normalization and redirect steps of a query response and returns a
+ * function following them from a requested title to the title the API answered with.
+ */
+const titleStepsOf = (data: any): ((title: string) => string) => {
+  // Each step maps one title onto the next; a title can be normalized and then redirected
+  const steps = new Map<string, string>();
+  (data.query?.normalized || []).forEach((n: { from: string; to: string }) => steps.set(n.from, n.to));
+  (data.query?.redirects || []).forEach((r: { from: string; to: string }) => steps.set(r.from, r.to));
+
+  return (title: string) => {
+    let current = title;
+    for (let hops = 0; steps.has(current) && hops < 5; hops++) current = steps.get(current)!;
+    return current;
+  };
+};
+
+/**
+ * Resolves titles to their canonical article titles, following normalization
+ * ("united_states" -> "United states") and redirects ("USA" -> "United States").
+ * Queries in batches of 50; titles the API does not know map to themselves.
+ */
+export const resolveTitles = async (titles: string[], site: MediaWikiSite, signal?: AbortSignal): Promise<Map<string, string>> => {
+  const resolved = new Map<string, string>();
+
+  for (let i = 0; i < titles.length; i += TITLE_BATCH_SIZE) {
+    const batch = titles.slice(i, i + TITLE_BATCH_SIZE);
+    const data = await queryMediaWiki(site, {
+      action: 'query',
+      titles: batch.join('|'),
+      redirects: '1',
+    }, signal);
+
+    const follow = titleStepsOf(data);
+    batch.forEach(title => resolved.set(title, normalizeTitle(follow(title))));
+  }
+  return resolved;
+};
+
+// Extracts are limited to 20 pages per query
+const SUMMARY_BATCH_SIZE = 20;
+
+// Category names of disambiguation pages in the larger editions, for wikis without page props
+const DISAMBIGUATION_CATEGORY = /disambiguation|begriffsklärung|homonymie|desambiguación|desambiguação|disambigua|doorverwijspagina|неоднозначн|曖昧さ回避|消歧义|消歧義|동음이의/i;
+
+// Suggestions shown under the search box
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Fetches short descriptions, intro extracts and thumbnails for a set of articles.
+ * Queries in batches of 20; the result is keyed by the requested titles, and
+ * missing pages are simply absent.
+ */
+export const fetchPageSummaries = async (
+  titles: string[],
+  lang: string = DEFAULT_LANG,
+  site: MediaWikiSite = getWikipediaSite(lang),
+  signal?: AbortSignal
+): Promise<Map<string, PageSummary>> => {
+  const summaries = new Map<string, PageSummary>();
+
+  for (let i = 0; i < titles.length; i += SUMMARY_BATCH_SIZE) {
+    const batch = titles.slice(i, i + SUMMARY_BATCH_SIZE);
+    const data = await queryMediaWiki(site, {
+      action: 'query',
+      titles: batch.join('|'),
+      prop: 'description|extracts|pageimages',
+      exintro: '1',
+      explaintext: '1',
+      exsentences: '3',
+      exlimit: 'max',
+      piprop: 'thumbnail',
+      pithumbsize: '160',
+      pilimit: 'max',
+      redirects: '1',
+    }, signal);
+
+    const pagesByTitle = new Map<string, any>();
+    Object.values(data.query?.pages || {}).forEach((p: any) => {
+      if (p.missing === undefined) pagesByTitle.set(p.title, p);
+    });
+
+    const follow = titleStepsOf(data);
+    batch.forEach(title => {
+      const page = pagesByTitle.get(follow(title));
+      if (!page) return;
+      summaries.set(title, {
+        description: page.description,
+        extract: page.extract?.trim() || undefined,
+        thumbnail: page.thumbnail?.source,
+      });
+    });
+  }
+  return summaries;
+};
+
+/**
+ * Suggests articles whose title starts with `query` (the `prefixsearch` generator, which
+ * also backs the wiki's own search box), best match first, with short descriptions.
+ * Redirect titles are followed, so each article is suggested once.
  */
-export const fetchWikiLinks = async (title: string, maxLinks: number = 150): Promise<GraphData> => {
-  const params = new URLSearchParams({
+export const fetchSearchSuggestions = async (
+  query: string,
+  lang: string = DEFAULT_LANG,
+  site: MediaWikiSite = getWikipediaSite(lang),
+  signal?: AbortSignal,
+  limit: number = MAX_SUGGESTIONS
+): Promise<SearchSuggestion[]> => {
+  const data = await queryMediaWiki(site, {
     action: 'query',
-    titles: title,
-    prop: 'revisions|description',
-    rvprop: 'content',
-    format: 'json',
-    origin: '*',
+    generator: 'prefixsearch',
+    gpssearch: query,
+    gpslimit: String(limit),
+    gpsnamespace: '0',
+    prop: 'description',
     redirects: '1',
-  });
+  }, signal);
+
+  // Pages come keyed by id; `index` is the search rank. Followed redirects keep the rank
+  // of the redirect, so an article may share its rank with itself.
+  const pages: any[] = Object.values(data.query?.pages || {});
+  const seen = new Set<string>();
+  return pages
+    .filter(p => p.missing === undefined)
+    .sort((a, b) => (a.index ?? Infinity) - (b.index ?? Infinity))
+    .filter(p => !seen.has(p.title) && seen.add(p.title))
+    .map(p => ({ title: p.title, description: p.description }));
+};
+
+/**
+ * Normalizes a category name typed with or without its `Category:` prefix.
+ * Example: 'category:physics_stubs' -> 'Physics stubs'
+ */
+export const normalizeCategoryName = (name: string): string => normalizeTitle(name.trim().replace(/^category\s*:/i, ''));
+
+/**
+ * Lists the articles in a category, breadth-first through its subcategories down to
+ * `depth` levels (0: the category itself), until `limit` articles were found.
+ */
+export const fetchCategoryMembers = async (
+  category: string,
+  depth: number,
+  limit: number,
+  lang: string = DEFAULT_LANG,
+  site: MediaWikiSite = getWikipediaSite(lang),
+  signal?: AbortSignal
+): Promise<string[]> => {
+  const members = new Set<string>();
+  const visited = new Set<string>();
+  let level = [`Category:${normalizeCategoryName(category)}`];
+  level.forEach(c => visited.add(c));
+
+  for (let d = 0; d <= depth && level.length > 0 && members.size < limit; d++) {
+    const next: string[] = [];
+    for (const cmtitle of level) {
+      if (members.size >= limit) break;
 
-  const response = await fetch(`${WIKI_API_URL}?${params.toString()}`);
-  
-  if (!response.ok) {
-    throw new Error('Failed to fetch from Wikipedia');
+      let cont: Record<string, string> | undefined = {};
+      while (cont && members.size < limit) {
+        const data = await queryMediaWiki(site, {
+          action: 'query',
+          list: 'categorymembers',
+          cmtitle,
+          cmnamespace: '0|14',
+          cmlimit: 'max',
+          ...cont,
+        }, signal);
+
+        (data.query?.categorymembers || []).forEach((m: { ns: number; title: string }) => {
+          if (m.ns === 14) {
+            if (!visited.has(m.title)) {
+              visited.add(m.title);
+              next.push(m.title);
+            }
+          } else if (members.size < limit) {
+            members.add(m.title);
+          }
+        });
+        cont = data.continue;
+      }
+    }
+    level = next;
   }
+  return Array.from(members);
+};
 
-  const data: any = await response.json();
-  if (data.error) throw new Error(data.error.info);
+/**
+ * Re-keys a cluster's children under their canonical titles.
+ * Children that turn out to be the same article are merged (their link weights add up)
+ * and the titles they were linked under are kept as `aliases`. Children that redirect
+ * back to the center are dropped.
+ */
+export const canonicalizeCluster = (
+  cluster: GraphData,
+  canonicalTitleOf: (title: string) => string,
+  articleUrl: (title: string) => string
+): GraphData => {
+  if (cluster.nodes.length === 0) return cluster;
+
+  const [centerNode, ...children] = cluster.nodes;
+  const childMap = new Map<string, WikiNode>(); // Canonical id -> node
+  const idMap = new Map<string, string>(); // Original id -> canonical id
+
+  children.forEach(child => {
+    const canonicalTitle = canonicalTitleOf(child.title);
+    const canonicalId = makeNodeId(canonicalTitle, child.lang);
+    idMap.set(child.id, canonicalId);
+    if (canonicalId === centerNode.id) return;
+
+    let node = childMap.get(canonicalId);
+    if (!node) {
+      node = canonicalTitle === child.title ? child : createNode(canonicalTitle, 'sub', child.lang, articleUrl);
+      childMap.set(canonicalId, node);
+    }
+    if (canonicalTitle !== child.title) {
+      node.aliases = Array.from(new Set([...(node.aliases || []), child.title]));
+    }
+  });
+
+  const linkMap = new Map<string, WikiLink>();
+  cluster.links.forEach(l => {
+    const sid = idMap.get(l.source as string) ?? l.source as string;
+    const tid = idMap.get(l.target as string) ?? l.target as string;
+    if (sid === tid || !(childMap.has(sid) || childMap.has(tid))) return;
+
+    const key = `${sid}->${tid}`;
+    const existing = linkMap.get(key);
+    if (existing) existing.value = Math.round((existing.value + l.value) * 100) / 100;
+    else linkMap.set(key, { ...l, source: sid, target: tid });
+  });
+
+  return { nodes: [centerNode, ...childMap.values()], links: Array.from(linkMap.values()) };
+};
+
+/**
+ * Fetches links for a specific page title.
+ * 1. Calls the MediaWiki API of `site` (defaults to the Wikipedia edition of `lang`).
+ * 2. Parses the content for [[Link]] syntax to ensure connection context.
+ * 3. Resolves the linked titles so redirects ("USA") collapse into their article ("United States").
+ * 4. Returns GraphData with a central 'main' node and satellite 'sub' nodes.
+ * With `asOf` (an ISO timestamp) the links come from the revision that was current at that
+ * time instead of the latest one. Titles still resolve through today's redirects.
+ * A `Title#Section` title limits the links to that section.
+ * Disambiguation pages come back flagged with the meanings they list and their descriptions.
+ */
+export const fetchWikiLinks = async (
+  titleRef: string,
+  maxLinks: number = 150,
+  lang: string = DEFAULT_LANG,
+  site: MediaWikiSite = getWikipediaSite(lang),
+  signal?: AbortSignal,
+  asOf?: string
+): Promise<GraphData> => {
+  const { title, section } = splitSectionAnchor(titleRef);
+  const data = await queryMediaWiki(site, {
+    action: 'query',
+    titles: title,
+    prop: 'revisions|description|pageprops|categories',
+    rvprop: 'content',
+    ppprop: 'disambiguation',
+    cllimit: 'max',
+    redirects: '1',
+    // Newest revision at or before `asOf`
+    ...(asOf ? { rvstart: asOf, rvdir: 'older', rvlimit: '1' } : {}),
+  }, signal);
 
   const pages = data.query?.pages;
   if (!pages) throw new Error('No pages found');
@@ -90,62 +526,187 @@ export const fetchWikiLinks = async (title: string, maxLinks: number = 150): Pro
   const pageId = Object.keys(pages)[0];
   const pageData = pages[pageId];
 
-  if (!pageData || pageId === '-1') {
+  if (!pageData || pageId === '-1' || pageData.missing !== undefined) {
      throw new Error('Page not found');
   }
+  if (asOf && !pageData.revisions?.length) throw new Error('Page did not exist at that date');
 
-  const canonicalTitle = pageData.title;
-  const description = pageData.description; 
-  let content = pageData.revisions?.[0]?.['*'] || '';
+  const cluster = buildClusterFromWikitext(
+    {
+      title: pageData.title,
+      description: pageData.description,
+      content: pageData.revisions?.[0]?.['*'] || '',
+      section,
+    },
+    maxLinks,
+    lang,
+    site.articleUrl
+  );
 
-  if (!content) {
-      return { nodes: [], links: [] };
-  }
+  // The link limit is applied before resolving, which bounds the number of extra requests
+  const resolved = await resolveTitles(cluster.nodes.slice(1).map(n => n.title), site, signal);
+  const canonical = canonicalizeCluster(cluster, t => resolved.get(t) || t, site.articleUrl);
 
-  // --- EXTRACT UNIQUE LINKS ONLY ---
-  // Using Regex to parse raw Wikitext source code for [[Link]] pattern.
-  // This is often more reliable for finding contextually relevant links than the 'links' prop of the API.
-  const linkRegex = /\[\[([^|\]#\n]+)(?:#[^|\]]*)?(?:\|[^\]]*)?\]\]/g;
-  const uniqueLinks = new Set<string>();
-  let match;
+  // Disambiguator marks these pages with a page prop; wikis without it still categorize them
+  const isDisambiguation = pageData.pageprops?.disambiguation !== undefined ||
+    (pageData.categories || []).some((c: { title: string }) => DISAMBIGUATION_CATEGORY.test(c.title));
+  if (!isDisambiguation) return canonical;
 
-  while ((match = linkRegex.exec(content)) !== null) {
-      const normalizedTarget = normalizeTitle(match[1]);
-      // Avoid self-links and unwanted namespaces
-      if (normalizedTarget !== canonicalTitle && !isExcludedNamespace(normalizedTarget)) {
-          uniqueLinks.add(normalizedTarget);
-      }
-  }
+  const meanings = canonical.nodes.slice(1).map(n => n.title);
+  const summaries = await fetchPageSummaries(meanings, lang, site, signal);
+  return {
+    ...canonical,
+    disambiguation: meanings.map(title => ({ title, description: summaries.get(title)?.description })),
+  };
+};
 
-  let finalLinkList = Array.from(uniqueLinks);
-  if (maxLinks !== Infinity) {
-    finalLinkList = finalLinkList.slice(0, maxLinks);
+/**
+ * Fetches the interlanguage links of an article, i.e. the same concept in other editions.
+ * Returns an empty list if the page does not exist or has no counterparts.
+ */
+export const fetchLangLinks = async (
+  title: string,
+  lang: string = DEFAULT_LANG,
+  site: MediaWikiSite = getWikipediaSite(lang),
+  signal?: AbortSignal
+): Promise<LangLink[]> => {
+  const data: WikiAPIResponse = await queryMediaWiki(site, {
+    action: 'query',
+    titles: title,
+    prop: 'langlinks',
+    lllimit: 'max',
+    redirects: '1',
+  }, signal);
+
+  const pages = data.query?.pages;
+  if (!pages) return [];
+
+  const pageData = pages[Object.keys(pages)[0]];
+  return (pageData?.langlinks || []).map(l => ({ lang: l.lang, title: l['*'] }));
+};
+
+// Upper bound on list=backlinks pages per expansion (500 titles each), so an
+// unlimited expansion of a hugely popular article still terminates.
+const MAX_BACKLINK_REQUESTS = 10;
+
+/**
+ * Fetches the articles linking *to* a page ("What links here").
+ * 1. Resolves the canonical title (following redirects) and its description.
+ * 2. Pages through list=backlinks in the main namespace.
+ * 3. Returns GraphData with the page as 'main' node, the linking articles as 'sub'
+ *    nodes, and 'backlink' edges pointing from each linking article to the page.
+ */
+export const fetchWikiBacklinks = async (
+  title: string,
+  maxLinks: number = 150,
+  lang: string = DEFAULT_LANG,
+  site: MediaWikiSite = getWikipediaSite(lang),
+  signal?: AbortSignal
+): Promise<GraphData> => {
+  const info = await queryMediaWiki(site, {
+    action: 'query',
+    titles: title,
+    prop: 'description',
+    redirects: '1',
+  }, signal);
+
+  const pages = info.query?.pages;
+  if (!pages) throw new Error('No pages found');
+
+  const pageId = Object.keys(pages)[0];
+  const pageData = pages[pageId];
+  if (!pageData || pageId === '-1' || pageData.missing !== undefined) {
+     throw new Error('Page not found');
   }
 
-  // Construct the central node (Main Node)
-  const centerNode: WikiNode = {
-    id: canonicalTitle,
-    group: 'main',
-    url: `https://en.wikipedia.org/wiki/${encodeURIComponent(canonicalTitle)}`,
-    description: description,
-  };
+  const canonicalTitle: string = pageData.title;
+  const uniqueBacklinks = new Set<string>();
+  let continueParams: Record<string, string> | undefined = {};
 
-  // Construct child nodes (Sub Nodes)
-  const childNodes: WikiNode[] = finalLinkList.map(linkTitle => ({
-    id: linkTitle,
-    group: 'sub',
-    url: `https://en.wikipedia.org/wiki/${encodeURIComponent(linkTitle)}`,
-  }));
+  for (let i = 0; continueParams && i < MAX_BACKLINK_REQUESTS && uniqueBacklinks.size < maxLinks; i++) {
+    const remaining = maxLinks - uniqueBacklinks.size;
+    const data = await queryMediaWiki(site, {
+      action: 'query',
+      list: 'backlinks',
+      bltitle: canonicalTitle,
+      blnamespace: '0',
+      blfilterredir: 'nonredirects', // Redirect pages "link" to their target; they are not articles
+      bllimit: remaining >= 500 ? 'max' : String(remaining),
+      ...continueParams,
+    }, signal);
+
+    (data.query?.backlinks || []).forEach((b: { title: string }) => {
+      const normalized = normalizeTitle(b.title);
+      if (normalized !== canonicalTitle && uniqueBacklinks.size < maxLinks) uniqueBacklinks.add(normalized);
+    });
+    continueParams = data.continue;
+  }
 
-  // Create links from center to children
+  const centerNode = createNode(canonicalTitle, 'main', lang, site.articleUrl, pageData.description);
+  const childNodes = Array.from(uniqueBacklinks).map(linkTitle => createNode(linkTitle, 'sub', lang, site.articleUrl));
+
+  // Edges point the other way: from the linking article to the page
   const links: WikiLink[] = childNodes.map(child => ({
-    source: centerNode.id,
-    target: child.id,
-    value: 1
+    source: child.id,
+    target: centerNode.id,
+    value: 1,
+    kind: 'backlink',
   }));
 
   return {
     nodes: [centerNode, ...childNodes],
     links: links
   };
-};
\ No newline at end of file
+};
+
+
+// Upper bound on prop=links queries per densify pass
+const MAX_DENSIFY_REQUESTS = 100;
+
+/**
+ * Finds which of the `sources` articles link to any of the `targets` titles.
+ * Each batch of 50 sources is queried with `pltitles` set to each batch of 50 targets,
+ * so the API only returns links inside the set. The cost grows quadratically with the
+ * number of titles; after `maxRequests` queries the search stops with `complete: false`.
+ * Links go to titles as written, so include redirect aliases in `targets` to catch them.
+ */
+export const fetchLinksBetween = async (
+  sources: string[],
+  targets: string[],
+  lang: string = DEFAULT_LANG,
+  site: MediaWikiSite = getWikipediaSite(lang),
+  signal?: AbortSignal,
+  maxRequests: number = MAX_DENSIFY_REQUESTS
+): Promise<{ links: TitleLink[]; complete: boolean }> => {
+  const links: TitleLink[] = [];
+  let requests = 0;
+
+  for (let i = 0; i < sources.length; i += TITLE_BATCH_SIZE) {
+    for (let j = 0; j < targets.length; j += TITLE_BATCH_SIZE) {
+      let continueParams: Record<string, string> | undefined = {};
+
+      while (continueParams) {
+        if (requests >= maxRequests) return { links, complete: false };
+        requests++;
+
+        const data = await queryMediaWiki(site, {
+          action: 'query',
+          titles: sources.slice(i, i + TITLE_BATCH_SIZE).join('|'),
+          prop: 'links',
+          plnamespace: '0',
+          pltitles: targets.slice(j, j + TITLE_BATCH_SIZE).join('|'),
+          pllimit: 'max',
+          ...continueParams,
+        }, signal);
+
+        Object.values(data.query?.pages || {}).forEach((p: any) => {
+          (p.links || []).forEach((l: { title: string }) => {
+            if (l.title !== p.title) links.push({ source: normalizeTitle(p.title), target: normalizeTitle(l.title) });
+          });
+        });
+        continueParams = data.continue;
+      }
+    }
+  }
+  return { links, complete: true };
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { extractWikitextLinks, isDisambiguationWikitext, sliceSection, stripIgnoredBlocks } from './wikitextParser';
+import { ALBERT_EINSTEIN, MERCURY_DISAMBIGUATION, SOLAR_SYSTEM_NAVBOX } from './__fixtures__/wikitext';
+
+const targets = (content: string) => extractWikitextLinks(content).map(l => l.target);
+const find = (content: string, target: string) => extractWikitextLinks(content).filter(l => l.target === target);
+
+describe('stripIgnoredBlocks', () => {
+  it('removes comments and citations, keeping the text around them', () => {
+    const text = stripIgnoredBlocks(ALBERT_EINSTEIN);
+    expect(text).not.toContain('Stateless person');
+    expect(text).not.toContain('Pearson Education');
+    expect(text).toContain('[[theoretical physicist]]');
+  });
+});
+
+describe('extractWikitextLinks', () => {
+  it('skips links inside comments and <ref> bodies', () => {
+    const found = targets(ALBERT_EINSTEIN);
+    expect(found).not.toContain('Stateless person');
+    expect(found).not.toContain('Pearson Education');
+    expect(found).not.toContain('Walker & Company');
+  });
+
+  it('finds infobox links, including those nested in list templates', () => {
+    const infobox = extractWikitextLinks(ALBERT_EINSTEIN).filter(l => l.context === 'infobox');
+    expect(infobox.map(l => l.target)).toEqual([
+      'Ulm', 'Kingdom of Württemberg', 'German Empire', 'Princeton, New Jersey',
+      'Kingdom of Württemberg', 'German Empire', 'Switzerland',
+      'ETH Zurich', 'Bachelor of Science', 'University of Zurich', 'Doctor of Philosophy',
+      'Nobel Prize in Physics',
+    ]);
+    expect(infobox[0]).toMatchObject({ section: null, template: 'infobox scientist' });
+    // The innermost template is recorded, the outer infobox still sets the context
+    expect(infobox[8]).toEqual({
+      target: 'Bachelor of Science', label: 'BSc', section: null, context: 'infobox', template: 'plainlist',
+    });
+  });
+
+  it('keeps the navbox context through nested navboxes and links', () => {
+    const links = extractWikitextLinks(SOLAR_SYSTEM_NAVBOX);
+    expect(links.map(l => l.target)).toEqual([
+      'Solar System', 'Sun', 'Mercury (planet)', 'Venus', 'Earth', 'Moon', 'Dwarf planet', 'Ceres (dwarf planet)',
+    ]);
+    expect(links.every(l => l.context === 'navbox' && l.template === 'navbox')).toBe(true);
+    expect(links.find(l => l.target === 'Ceres (dwarf planet)')?.label).toBe('Ceres');
+  });
+
+  it('emits the titles named by hatnotes and interlanguage links', () => {
+    expect(find(ALBERT_EINSTEIN, 'Early life of Albert Einstein')).toEqual([{
+      target: 'Early life of Albert Einstein', section: 'Life and career', context: 'hatnote', template: 'main',
+    }]);
+    expect(find(ALBERT_EINSTEIN, 'Einstein family')).toEqual([{
+      target: 'Einstein family', section: 'Childhood, youth and education', context: 'hatnote', template: 'see also',
+    }]);
+    // {{ill}} sits in running text, so it keeps the body context
+    expect(find(ALBERT_EINSTEIN, 'Hermann Einstein')).toEqual([{
+      target: 'Hermann Einstein', section: 'Childhood, youth and education', context: 'body', template: 'ill',
+    }]);
+  });
+
+  it('finds links nested in image captions and other templates', () => {
+    expect(find(ALBERT_EINSTEIN, 'Maja Einstein')).toEqual([{
+      target: 'Maja Einstein', label: 'Maja', section: 'Childhood, youth and education', context: 'caption',
+    }]);
+    expect(find(ALBERT_EINSTEIN, 'Euclidean geometry')).toEqual([{
+      target: 'Euclidean geometry', section: 'Childhood, youth and education', context: 'template', template: 'quote box',
+    }]);
+    expect(targets(ALBERT_EINSTEIN)).not.toContain('File:Albert Einstein as a child.jpg');
+  });
+
+  it('records the section of each occurrence', () => {
+    expect(find(ALBERT_EINSTEIN, 'Ulm').map(l => [l.section, l.context])).toEqual([
+      [null, 'infobox'],
+      ['Childhood, youth and education', 'body'],
+    ]);
+    expect(find(ALBERT_EINSTEIN, 'theoretical physicist')[0]).toEqual({
+      target: 'theoretical physicist', section: null, context: 'body',
+    });
+    expect(find(ALBERT_EINSTEIN, 'Einstein notation')[0].section).toBe('See also');
+  });
+
+  it('leaves interlanguage links out', () => {
+    expect(targets(ALBERT_EINSTEIN)).not.toContain('de:Albert Einstein');
+    expect(targets(ALBERT_EINSTEIN)).not.toContain('Albert Einstein');
+  });
+});
+
+describe('sliceSection', () => {
+  it('cuts a section together with its subsections', () => {
+    const section = sliceSection(ALBERT_EINSTEIN, 'Life_and_career');
+    expect(section).toContain('{{Main|Early life of Albert Einstein}}');
+    expect(section).toContain('[[Ashkenazi Jews]]');
+    expect(section).not.toContain('[[Einstein notation]]');
+  });
+
+  it('returns null for a missing heading', () => {
+    expect(sliceSection(ALBERT_EINSTEIN, 'Personal life')).toBeNull();
+  });
+});
+
+describe('isDisambiguationWikitext', () => {
+  it('recognises disambiguation pages by their template', () => {
+    expect(isDisambiguationWikitext(MERCURY_DISAMBIGUATION)).toBe(true);
+    expect(isDisambiguationWikitext(ALBERT_EINSTEIN)).toBe(false);
+  });
+});
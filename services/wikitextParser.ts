@@ -0,0 +1,327 @@
+// The syntactic context a link was found in
+export type LinkContext =
+  | 'body'     // Running text, lists and tables
+  | 'infobox'  // Anywhere inside an infobox (including nested templates)
+  | 'navbox'   // Anywhere inside a navbox / sidebar
+  | 'hatnote'  // Produced by {{main}}, {{see also}}, {{further}}...
+  | 'template' // A [[link]] inside the parameters of any other template
+  | 'caption'; // Caption of an embedded file/image
+
+// One link occurrence extracted from an article's wikitext
+export interface WikitextLink {
+  target: string; // Target title as written (no leading ':' and no '#anchor'), not yet normalized
+  anchor?: string; // Section anchor, e.g. [[Physics#History]] -> 'History'
+  label?: string; // Display text, if piped
+  section: string | null; // Heading the link sits under; null for the lead
+  context: LinkContext;
+  template?: string; // Normalized name of the innermost template the link came from
+}
+
+// Templates whose positional parameters are article titles
+const HATNOTE_TEMPLATES = new Set([
+  'main', 'main article', 'see also', 'see also2', 'also', 'further', 'further information', 'details',
+]);
+
+// {{ill|Local title|lang|Foreign title}}: the first parameter is the (possibly red) local article
+const INTERLANGUAGE_TEMPLATES = new Set(['ill', 'interlanguage link', 'illm', 'interlanguage link multi']);
+
+const INFOBOX_TEMPLATE = /^(infobox|taxobox|automatic taxobox|speciesbox|chembox|drugbox)\b/;
+const NAVBOX_TEMPLATE = /^(navbox|.+ navbox|sidebar|.+ sidebar|portal bar|authority control)\b/;
+
+// File namespaces (canonical plus the most common localized names); their links embed media
+const FILE_NAMESPACES = new Set([
+  'file', 'image', 'datei', 'bild', 'fichier', 'archivo', 'imagen', 'immagine', 'ファイル', '画像', 'файл', 'plik', 'bestand', 'arquivo',
+]);
+
+// Inline content that never contributes article links
+const IGNORED_BLOCKS: RegExp[] = [
+  /<!--[\s\S]*?(-->|$)/g,                                    // Comments (an unterminated one runs to the end)
+  /<ref\b[^>]*\/>/gi,                                        // Self-closing citations
+  /<ref\b[^>]*>[\s\S]*?<\/ref\s*>/gi,                        // Citations
+  /<references\b[^>]*>[\s\S]*?<\/references\s*>/gi,          // List-defined references
+  /<(nowiki|pre|math|syntaxhighlight|source|code|score|timeline)\b[^>]*>[\s\S]*?<\/\1\s*>/gi,
+];
+
+type Bracket = '{{{' | '{{' | '[[';
+const CLOSERS: Record<Bracket, string> = { '{{{': '}}}', '{{': '}}', '[[': ']]' };
+
+const openerAt = (text: string, i: number): Bracket | null => {
+  if (text.startsWith('{{{', i) && !text.startsWith('{{{{', i)) return '{{{';
+  if (text.startsWith('{{', i)) return '{{';
+  if (text.startsWith('[[', i)) return '[[';
+  return null;
+};
+
+const closerAt = (text: string, i: number): Bracket | null => {
+  if (text.startsWith('}}}', i) && !text.startsWith('}}}}', i)) return '{{{';
+  if (text.startsWith('}}', i)) return '{{';
+  if (text.startsWith(']]', i)) return '[[';
+  return null;
+};
+
+/**
+ * Finds the end (exclusive) of the bracket construct opening at `start`, honouring nesting
+ * of links, templates and template parameters. A closer that does not match the innermost
+ * opener closes the nearest matching one further out (unterminated inner constructs are
+ * abandoned), and stray closers are ignored. Returns -1 if the construct never closes.
+ */
+const findClosing = (text: string, start: number): number => {
+  const stack: Bracket[] = [];
+  let i = start;
+
+  while (i < text.length) {
+    const opener = openerAt(text, i);
+    if (opener) {
+      stack.push(opener);
+      i += opener.length;
+      continue;
+    }
+
+    // Prefer closing the innermost construct, so '}}}' ends a '{{{' but '}}' ends a '{{'
+    const innermost = stack[stack.length - 1];
+    if (text.startsWith(CLOSERS[innermost], i)) {
+      stack.pop();
+      i += CLOSERS[innermost].length;
+      if (stack.length === 0) return i;
+      continue;
+    }
+
+    const closer = closerAt(text, i);
+    if (closer) {
+      const depth = stack.lastIndexOf(closer);
+      i += CLOSERS[closer].length;
+      if (depth !== -1) {
+        stack.length = depth;
+        if (stack.length === 0) return i;
+      }
+      continue;
+    }
+    i++;
+  }
+  return -1;
+};
+
+/**
+ * Splits the inside of a template or link on '|' characters that are not nested
+ * inside another link, template or parameter.
+ */
+const splitTopLevel = (inner: string): string[] => {
+  const parts: string[] = [];
+  let last = 0;
+  let i = 0;
+
+  while (i < inner.length) {
+    if (openerAt(inner, i)) {
+      const end = findClosing(inner, i);
+      if (end !== -1) {
+        i = end;
+        continue;
+      }
+    }
+    if (inner[i] === '|') {
+      parts.push(inner.slice(last, i));
+      last = i + 1;
+    }
+    i++;
+  }
+  parts.push(inner.slice(last));
+  return parts;
+};
+
+const normalizeTemplateName = (name: string): string =>
+  name.trim().replace(/_/g, ' ').replace(/\s+/g, ' ').replace(/^template:/i, '').toLowerCase();
+
+// Interwiki and old-style interlanguage links ([[de:Foo]], [[wikt:bar]]) leave the wiki
+const isInterwiki = (target: string): boolean => /^(?:[a-z]{2,3}(?:-[a-z]+)*|wikt|wiktionary|commons|species|meta|mw|voy|wikidata|d|s|q|b|n|v):/.test(target);
+
+/**
+ * Splits a link target into title and anchor: "Physics#History" -> ['Physics', 'History'].
+ */
+const splitAnchor = (raw: string): { target: string; anchor?: string } => {
+  const [target, ...anchor] = raw.replace(/^\s*:/, '').split('#');
+  return { target: target.trim(), anchor: anchor.length > 0 ? anchor.join('#').trim() || undefined : undefined };
+};
+
+// Heading text without link/bold/italic markup
+const cleanHeading = (text: string): string =>
+  text
+    .replace(/\[\[(?:[^|\]]*\|)?([^\]]*)\]\]/g, '$1')
+    .replace(/'{2,}/g, '')
+    .trim();
+
+interface ScanState {
+  section: string | null;
+  context: LinkContext;
+  template?: string;
+  emit: (link: WikitextLink) => void;
+}
+
+/**
+ * Handles a [[...]] construct. Regular links are emitted; file embeds are not links
+ * themselves, but their caption is scanned.
+ */
+const scanLink = (inner: string, state: ScanState) => {
+  const [rawTarget, ...rest] = splitTopLevel(inner);
+  const { target, anchor } = splitAnchor(rawTarget);
+  if (!target || isInterwiki(target)) return;
+
+  const namespace = target.includes(':') ? target.split(':')[0].trim().toLowerCase() : '';
+  if (FILE_NAMESPACES.has(namespace)) {
+    const captionState: ScanState = {
+      ...state,
+      context: state.context === 'body' ? 'caption' : state.context,
+    };
+    rest.forEach(part => scan(part, captionState));
+    return;
+  }
+
+  // Piped labels are plain text; an unpiped link shows its target
+  state.emit({
+    target,
+    anchor,
+    label: rest.length > 0 ? rest.join('|').trim() || undefined : undefined,
+    section: state.section,
+    context: state.context,
+    template: state.template,
+  });
+};
+
+/**
+ * Handles a {{...}} construct: hatnote and interlanguage templates produce links of
+ * their own, and every parameter is scanned for nested links and templates.
+ */
+const scanTemplate = (inner: string, state: ScanState) => {
+  const [rawName, ...params] = splitTopLevel(inner);
+  // Parser functions ({{#if:...}}) carry their first argument after the colon
+  const isParserFunction = rawName.trim().startsWith('#');
+  const name = normalizeTemplateName(isParserFunction ? rawName.split(':')[0] : rawName);
+
+  // Outer infobox/navbox context wins over anything nested inside it
+  let context: LinkContext = state.context;
+  if (context !== 'infobox' && context !== 'navbox') {
+    if (INFOBOX_TEMPLATE.test(name)) context = 'infobox';
+    else if (NAVBOX_TEMPLATE.test(name)) context = 'navbox';
+    else if (HATNOTE_TEMPLATES.has(name)) context = 'hatnote';
+    else context = 'template';
+  }
+
+  const positional = params.filter(p => !/^\s*[^=[{|]+=/.test(p));
+  const emitTitle = (raw: string, linkContext: LinkContext) => {
+    const { target, anchor } = splitAnchor(raw);
+    if (target && !/[[\]{}]/.test(target) && !isInterwiki(target)) {
+      state.emit({ target, anchor, section: state.section, context: linkContext, template: name });
+    }
+  };
+
+  if (HATNOTE_TEMPLATES.has(name)) {
+    positional.forEach(p => emitTitle(p, context));
+  } else if (INTERLANGUAGE_TEMPLATES.has(name)) {
+    const first = params.find(p => /^\s*1\s*=/.test(p))?.replace(/^\s*1\s*=/, '') ?? positional[0];
+    // Used inline in running text, so it keeps the surrounding context
+    if (first !== undefined) emitTitle(first, state.context);
+  }
+
+  if (isParserFunction && rawName.includes(':')) {
+    scan(rawName.slice(rawName.indexOf(':') + 1), { ...state, context, template: name });
+  }
+  params.forEach(p => {
+    const value = p.replace(/^\s*[^=[{|]+=/, '');
+    scan(value, { ...state, context, template: name });
+  });
+};
+
+/**
+ * Walks wikitext, dispatching links and templates. Headings are only recognised
+ * at the top level (`trackSections`), i.e. not inside template parameters.
+ */
+const scan = (text: string, state: ScanState, trackSections = false) => {
+  let i = 0;
+
+  while (i < text.length) {
+    if (trackSections && text[i] === '=' && (i === 0 || text[i - 1] === '\n')) {
+      const lineEnd = text.indexOf('\n', i);
+      const line = text.slice(i, lineEnd === -1 ? text.length : lineEnd);
+      const heading = line.match(/^(={1,6})\s*(.+?)\s*\1\s*$/);
+      if (heading) {
+        state.section = cleanHeading(heading[2]);
+        i += line.length;
+        continue;
+      }
+    }
+
+    const opener = openerAt(text, i);
+    if (opener) {
+      const end = findClosing(text, i);
+      if (end === -1) {
+        // Unbalanced: treat the brackets as plain text
+        i += opener.length;
+        continue;
+      }
+
+      const inner = text.slice(i + opener.length, end - CLOSERS[opener].length);
+      if (opener === '[[') scanLink(inner, state);
+      else if (opener === '{{') scanTemplate(inner, state);
+      // '{{{' template parameters: the default value may contain links
+      else scan(splitTopLevel(inner).slice(1).join('|'), state);
+
+      i = end;
+      continue;
+    }
+    i++;
+  }
+};
+
+/**
+ * Removes comments, citations and verbatim blocks, none of which contribute links.
+ */
+export const stripIgnoredBlocks = (content: string): string =>
+  IGNORED_BLOCKS.reduce((text, pattern) => text.replace(pattern, ''), content);
+
+/**
+ * Extracts every link occurrence from an article's wikitext, in document order.
+ * Links inside comments, <ref> citations and verbatim blocks are ignored; links produced
+ * by hatnote/interlanguage templates and nested links (e.g. in image captions) are found.
+ * Each occurrence records its section and syntactic context.
+ */
+export const extractWikitextLinks = (content: string): WikitextLink[] => {
+  const links: WikitextLink[] = [];
+  scan(stripIgnoredBlocks(content), { section: null, context: 'body', emit: l => links.push(l) }, true);
+  return links;
+};
+
+// Headings compare like anchors do: case-insensitive, underscores as spaces
+const normalizeAnchor = (text: string): string => text.replace(/_/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Cuts one section (its subsections included) out of an article's wikitext, found by its
+ * heading text as written in a `#Section` anchor. Returns null if no heading matches.
+ */
+export const sliceSection = (content: string, section: string): string | null => {
+  const wanted = normalizeAnchor(section);
+  const lines = content.split('\n');
+  let start = -1;
+  let level = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const heading = lines[i].match(/^(={1,6})\s*(.+?)\s*\1\s*$/);
+    if (!heading) continue;
+    if (start === -1) {
+      if (normalizeAnchor(cleanHeading(heading[2])) === wanted) {
+        start = i + 1;
+        level = heading[1].length;
+      }
+    } else if (heading[1].length <= level) {
+      return lines.slice(start, i).join('\n');
+    }
+  }
+  return start === -1 ? null : lines.slice(start).join('\n');
+};
+
+// Markers of a disambiguation page in raw wikitext (local dumps have no page props)
+const DISAMBIGUATION_MARKERS = /__DISAMBIG__|\{\{\s*(disambiguation|disambig|dab|hndis|geodis|begriffsklärung|homonymie|desambiguación)\s*[|}]|\[\[\s*category\s*:[^\]]*disambiguation/i;
+
+/**
+ * Tells whether wikitext is a disambiguation page, by its magic word, the common
+ * disambiguation templates or a disambiguation category.
+ */
+export const isDisambiguationWikitext = (content: string): boolean => DISAMBIGUATION_MARKERS.test(content);
@@ -0,0 +1,106 @@
+import { GraphData, WikiNode, WikiLink, Workspace } from '../types';
+
+// Kept apart from the response cache so clearing one never touches the other
+const DB_NAME = 'wikicluster-workspaces';
+const DB_VERSION = 1;
+const STORE = 'workspaces';
+const ACTIVE_KEY = 'wikicluster.activeWorkspace';
+
+export type WorkspaceSummary = Pick<Workspace, 'id' | 'name' | 'updatedAt'>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Saved workspaces, by name.
+ */
+export const listWorkspaces = async (): Promise<WorkspaceSummary[]> => {
+  const all: Workspace[] = await withStore('readonly', store => store.getAll());
+  return all
+    .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const getWorkspace = (id: string): Promise<Workspace | undefined> => withStore('readonly', store => store.get(id));
+export const putWorkspace = (workspace: Workspace): Promise<IDBValidKey> => withStore('readwrite', store => store.put(workspace));
+export const deleteWorkspace = (id: string): Promise<undefined> => withStore('readwrite', store => store.delete(id));
+
+// The workspace to reopen on the next visit
+export const getActiveWorkspaceId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_KEY);
+  } catch {
+    return null; // Storage disabled
+  }
+};
+
+export const setActiveWorkspaceId = (id: string) => {
+  try {
+    localStorage.setItem(ACTIVE_KEY, id);
+  } catch {
+    // Not remembering the last workspace is harmless
+  }
+};
+
+export const createWorkspaceId = () => `ws-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createWorkspace = (name: string, linkLimit: number): Workspace => ({
+  id: createWorkspaceId(),
+  name,
+  updatedAt: Date.now(),
+  graph: { nodes: [], links: [] },
+  linkLimit,
+  transform: null,
+});
+
+/**
+ * Plain copy of a live graph for storage: D3's velocities and indices are dropped and link
+ * ends (node objects once the simulation ran) become ids again. Positions and pins stay.
+ */
+export const serializeGraph = (data: GraphData): GraphData => ({
+  nodes: data.nodes.map((n): WikiNode => {
+    const { vx, vy, index, ...node } = n as WikiNode & { index?: number };
+    return node;
+  }),
+  links: data.links.map((l): WikiLink => ({
+    ...l,
+    source: typeof l.source === 'object' ? l.source.id : l.source,
+    target: typeof l.target === 'object' ? l.target.id : l.target,
+  })),
+  path: data.path,
+});
+
+/**
+ * `base` if no workspace has that name yet, otherwise the first free "<base> N".
+ */
+export const uniqueWorkspaceName = (workspaces: WorkspaceSummary[], base: string) => {
+  const names = new Set(workspaces.map(w => w.name));
+  if (!names.has(base)) return base;
+  let n = 2;
+  while (names.has(`${base} ${n}`)) n++;
+  return `${base} ${n}`;
+};
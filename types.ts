@@ -1,16 +1,22 @@
-
 export interface WikiNode {
-  id: string; // The article title, serves as the unique identifier
+  id: string; // Unique identifier: "<lang>:<title>", so the same article in two editions stays two nodes
+  title: string; // The article title as shown in the graph and sidebar
+  lang: string; // Wikipedia language edition code (e.g. 'en', 'de', 'ja')
+  aliases?: string[]; // Redirect titles that lead to this article (e.g. 'USA' for 'United States')
   group: 'main' | 'sub'; // 'main': User-searched or expanded nodes (black); 'sub': purely linked nodes (white)
   url: string; // Full Wikipedia URL
   source?: string; // The ID of the node that spawned this one, or 'ROOT' for the initial search
+  expansion?: ExpansionMode; // Directions fetched for this main node; unset means outgoing links only
+  collapsed?: boolean; // Main node whose own sub-nodes are hidden (see collapsedSubNodes)
   description?: string; // Short description extracted from Wikipedia API
+  extract?: string; // First sentences of the article, loaded lazily for visible nodes
+  thumbnail?: string; // Lead image URL, loaded lazily alongside the extract
   
   // D3 Force Layout internal properties (optional because they are added by D3)
   x?: number;
   y?: number;
-  fx?: number | null; // Fixed X position (used during dragging)
-  fy?: number | null; // Fixed Y position (used during dragging)
+  fx?: number | null; // Fixed X position (while dragged, or pinned)
+  fy?: number | null; // Fixed Y position (while dragged, or pinned)
   vx?: number; // Velocity X
   vy?: number; // Velocity Y
 }
@@ -18,12 +24,130 @@ export interface WikiNode {
 export interface WikiLink {
   source: string | WikiNode; // Reference to source node ID or object (D3 transforms this to object)
   target: string | WikiNode; // Reference to target node ID or object
-  value: number; // Strength/Weight of the link (currently mostly 1)
+  value: number; // Strength/Weight of the link: 1 per body mention, more for lead/infobox mentions, less for navboxes
+  kind?: 'link' | 'backlink' | 'langlink'; // 'link' (default): wikitext [[link]]; 'backlink': found via "What links here"; 'langlink': same concept in another language edition
+  diff?: 'added' | 'removed'; // Set in snapshot diffs: link appeared or disappeared between the two dates
 }
 
 export interface GraphData {
   nodes: WikiNode[];
   links: WikiLink[];
+  path?: string[]; // Node ids of a found shortest path, in order; drawn as a highlighted chain
+  disambiguation?: SearchSuggestion[]; // Set on fetched clusters whose center is a disambiguation page: the meanings it lists
+}
+
+// Which way an expansion grows the graph: outgoing [[links]], incoming backlinks, or both
+export type ExpansionMode = 'out' | 'in' | 'both';
+
+// A Wikipedia language edition offered in the language selector
+export interface WikiLanguage {
+  code: string; // Subdomain code, e.g. 'de' for de.wikipedia.org
+  name: string; // Native name, e.g. 'Deutsch'
+}
+
+// An interlanguage link: the same article in another edition
+export interface LangLink {
+  lang: string;
+  title: string;
+}
+
+// Preview data for an article, used to enrich nodes after they were added
+export interface PageSummary {
+  description?: string;
+  extract?: string;
+  thumbnail?: string;
+}
+
+// A page named in user input (title, URL or `Title#Section`)
+export interface WikiPageRef {
+  title: string;
+  lang?: string; // Edition the input pointed at (Wikipedia URLs only)
+  section?: string; // Heading from a `#Section` anchor
+}
+
+// An article offered to pick from: a search suggestion, or one meaning of a disambiguation page
+export interface SearchSuggestion {
+  title: string;
+  description?: string;
+}
+
+// A link between two articles, by title (source links to target)
+export interface TitleLink {
+  source: string;
+  target: string;
+}
+
+// A MediaWiki installation: where its API lives and how its article URLs look
+export interface MediaWikiSite {
+  apiUrl: string; // e.g. https://en.wikipedia.org/w/api.php or https://starwars.fandom.com/api.php
+  articleUrl: (title: string) => string; // Builds the public page URL for a title
+}
+
+// A backend that produces graph clusters. App.tsx only talks to this interface,
+// so the same UI works against Wikipedia, any MediaWiki wiki or a local page dump.
+export interface WikiDataSource {
+  id: 'wikipedia' | 'mediawiki' | 'dump';
+  label: string; // Human readable name, shown in the source picker
+  supportsLanguages: boolean; // Whether the language edition selector applies to this source
+  defaultLang: string; // Language recorded on nodes when the source has a single edition
+  // `signal` cancels the request(s) behind a call
+  fetchLinks: (title: string, maxLinks: number, lang: string, signal?: AbortSignal) => Promise<GraphData>; // Center node first, children after
+  fetchBacklinks: (title: string, maxLinks: number, lang: string, signal?: AbortSignal) => Promise<GraphData>; // Same shape, edges point at the center
+  fetchLangLinks: (title: string, lang: string, signal?: AbortSignal) => Promise<LangLink[]>;
+  fetchSummaries?: (titles: string[], lang: string, signal?: AbortSignal) => Promise<Map<string, PageSummary>>; // Keyed by requested title
+  // Links from `sources` to `targets` only; `complete` is false if the source gave up early (request budget)
+  fetchLinksBetween?: (sources: string[], targets: string[], lang: string, signal?: AbortSignal) => Promise<{ links: TitleLink[]; complete: boolean }>;
+  // Article titles in a category, then in its subcategories down to `depth` levels; at most `limit`
+  fetchCategoryMembers?: (category: string, depth: number, limit: number, lang: string, signal?: AbortSignal) => Promise<string[]>;
+  fetchSuggestions?: (query: string, lang: string, signal?: AbortSignal) => Promise<SearchSuggestion[]>; // Titles starting with `query`, best first
+  // Like fetchLinks, but from the revision current at `timestamp` (ISO 8601); only sources with page history
+  fetchLinksAt?: (title: string, maxLinks: number, lang: string, timestamp: string, signal?: AbortSignal) => Promise<GraphData>;
+}
+
+// One page of a local dump (parsed from JSON or MediaWiki XML export)
+export interface DumpPage {
+  title: string;
+  text: string; // Raw wikitext
+  description?: string;
+  redirect?: string; // Target title if this page is a redirect
+}
+
+// A whole local dump
+export interface PageDump {
+  name: string; // File name, shown as the source label
+  baseUrl?: string; // Article URL prefix, if the dump says where it came from
+  lang?: string;
+  pages: DumpPage[];
+}
+
+// One cached data-source response (IndexedDB, see cacheService)
+export interface CacheEntry {
+  key: string; // source | kind | lang | maxLinks | title
+  source: string; // Label of the data source the response came from
+  kind: 'links' | 'backlinks' | 'langlinks';
+  title: string; // Title as requested
+  lang: string;
+  maxLinks: number;
+  centerId?: string; // Canonical node id of the fetched page (cluster responses only)
+  storedAt: number; // Epoch ms
+  data: GraphData | LangLink[];
+}
+
+// Zoom/pan of the graph view (d3.ZoomTransform without its methods)
+export interface ViewTransform {
+  x: number;
+  y: number;
+  k: number;
+}
+
+// A named graph saved in the browser (see services/workspaceService.ts)
+export interface Workspace {
+  id: string;
+  name: string;
+  updatedAt: number; // Epoch ms
+  graph: GraphData; // Nodes keep x/y and pinned fx/fy; link ends are node ids
+  linkLimit: number;
+  transform: ViewTransform | null; // Camera at the time of saving; null = default view
 }
 
 // Typing for the MediaWiki API response structure
@@ -33,7 +157,8 @@ export interface WikiAPIResponse {
       [key: string]: {
         title: string;
         links?:Array<{ ns: number; title: string }>;
+        langlinks?: Array<{ lang: string; '*': string }>;
       };
     };
   };
-}
\ No newline at end of file
+}